@@ -1,12 +1,20 @@
 // examples/demo.ts
 
-import { UltraVectorDB } from '../src';
+import { ChunkInput, UltraVectorDB } from '../src';
 
 async function runDemo() {
   console.log('--- 🚀 Starting Ultra Vector DB Demonstration ---');
-  const db = new UltraVectorDB();
+  const db = new UltraVectorDB(16, 200, {
+    logger: console.log,
+    schema: {
+      fields: {
+        type: { type: 'string', required: true, enum: ['Theory', 'Technical', 'Philosophy'] },
+        importance: { type: 'number', min: 0, max: 10 }
+      }
+    }
+  });
 
-  const chunks = [
+  const chunks: ChunkInput[] = [
     {
       id: 'A1',
       content:
@@ -35,7 +43,7 @@ async function runDemo() {
 
   console.log('\n--- 💾 Ingesting Chunks (HNSW Graph Construction) ---');
   for (const chunk of chunks) {
-    await db.addChunk(chunk as any);
+    await db.addChunk(chunk);
     console.log(`- Added chunk ${chunk.id}: "${chunk.content.substring(0, 60)}..."`);
   }
 
@@ -57,7 +65,9 @@ async function runDemo() {
 [#${i + 1}] ID: ${chunk.id} | Score: ${r.score.toFixed(4)}
     Snippet: "${chunk.content.substring(0, 80)}..."
     Breakdown:
-        - Nano (Hamming Dist): ${r.breakdown.binary}  (lower is better)
+        - Binary (Hamming Dist): ${r.breakdown.binary}  (lower is better)
+        - Tiny (Hamming Dist): ${r.breakdown.tiers.tiny}
+        - Small (128d Cosine):  ${r.breakdown.tiers.small.toFixed(4)}
         - ColBERT (Token Match): ${r.breakdown.colbert.toFixed(4)}
         - Full (768d Cosine):   ${r.breakdown.final.toFixed(4)}
     `);
@@ -0,0 +1,109 @@
+// examples/hnsw-recall.ts
+//
+// Recall@10 of HNSWGraph against brute-force search on random unit vectors at
+// the 256d medium tier UltraVectorDB indexes, built with its M=16 and
+// efConstruction=200. The vectors are random combinations of `latent` random
+// directions: like real embeddings, their intrinsic dimension is far below
+// their width. With latent >= dimensions they are uniform on the sphere, where
+// every point is nearly equidistant from every other and no ANN index does well.
+// Usage: hnsw-recall [count=100000] [dimensions=256] [queries=200] [ef list=50,100,200] [latent=16]
+// Fails unless recall@10 at ef=50, the DB's default, is above 0.95.
+
+import { availableParallelism } from 'node:os';
+import { HNSWGraph, WorkerPool, seededRandom } from '../src';
+import { cosineSimilarity } from '../src/utils/cosineSimilarity';
+import { TopK } from '../src/utils/heap';
+import { MEDIUM_DIMENSIONS } from '../src/utils/matryoshka';
+
+const K = 10;
+const DEFAULT_EF = 50; // UltraVectorDB's stage-2 `ef`
+const BATCH = 1000;
+
+const random = seededRandom(42);
+
+/** Box-Muller, so sums of these are Gaussian and directions uniform. */
+function gaussian(): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function vectorSource(dimensions: number, latent: number): () => Float32Array {
+  const basis = latent < dimensions
+    ? Array.from({ length: latent }, () => Float32Array.from({ length: dimensions }, gaussian))
+    : null;
+
+  return () => {
+    let v: Float32Array;
+    if (basis) {
+      v = new Float32Array(dimensions);
+      for (const direction of basis) {
+        const c = gaussian();
+        for (let i = 0; i < dimensions; i++) v[i] += c * direction[i];
+      }
+    } else {
+      v = Float32Array.from({ length: dimensions }, gaussian);
+    }
+    let norm = 0;
+    for (let i = 0; i < dimensions; i++) norm += v[i] * v[i];
+    norm = Math.sqrt(norm);
+    for (let i = 0; i < dimensions; i++) v[i] /= norm;
+    return v;
+  };
+}
+
+function bruteForce(query: Float32Array, vectors: Float32Array[]): string[] {
+  const top = new TopK<number>(K);
+  vectors.forEach((v, i) => top.offer(i, 1 - cosineSimilarity(query, v)));
+  return top.sorted().map(r => String(r.item));
+}
+
+async function runBenchmark() {
+  const [count = 100_000, dimensions = MEDIUM_DIMENSIONS, queries = 200] = process.argv.slice(2, 5).map(Number);
+  const efs = (process.argv[5] ?? `${DEFAULT_EF},100,200`).split(',').map(Number);
+  const latent = Number(process.argv[6] ?? 16);
+  const workers = availableParallelism();
+  console.log(
+    `--- HNSW recall@${K}: ${count} vectors, ${dimensions}d (latent ${Math.min(latent, dimensions)}d), ${queries} queries ---`
+  );
+
+  const nextVector = vectorSource(dimensions, latent);
+  const vectors = Array.from({ length: count }, nextVector);
+  const graph = new HNSWGraph(16, 200, undefined, { random: seededRandom(1) });
+
+  // with more than one core, the candidate searches of each batch run on all of them
+  let start = performance.now();
+  const pool = workers > 1 ? new WorkerPool(workers) : null;
+  for (let i = 0; i < count; i += BATCH) {
+    const batch = vectors.slice(i, i + BATCH).map((v, j): [string, Float32Array] => [String(i + j), v]);
+    await graph.insertBulk(batch, { pool: pool ?? undefined });
+  }
+  await pool?.close();
+  const buildMs = performance.now() - start;
+  console.log(
+    `Build: ${(buildMs / 1000).toFixed(1)}s on ${workers} thread(s) (${Math.round(count / (buildMs / 1000))} inserts/s)`
+  );
+
+  const queryVectors = Array.from({ length: queries }, nextVector);
+  const truth = queryVectors.map(q => bruteForce(q, vectors));
+
+  let recallAtDefault = 0;
+  for (const ef of efs) {
+    let hits = 0;
+    start = performance.now();
+    queryVectors.forEach((q, i) => {
+      const expected = new Set(truth[i]);
+      for (const id of graph.search(q, ef).slice(0, K)) if (expected.has(id)) hits++;
+    });
+    const searchMs = performance.now() - start;
+
+    const recall = hits / (queries * K);
+    if (ef === DEFAULT_EF) recallAtDefault = recall;
+    const label = ef === DEFAULT_EF ? ' (DB default)' : '';
+    console.log(`ef=${ef}${label}: recall@${K} ${recall.toFixed(4)}, ${(searchMs / queries).toFixed(2)}ms/query`);
+  }
+
+  const met = recallAtDefault > 0.95;
+  console.log(met ? '✅ Recall target met' : `❌ Recall@${K} at ef=${DEFAULT_EF} must exceed 0.95`);
+  if (!met) process.exitCode = 1;
+}
+
+runBenchmark();
@@ -0,0 +1,117 @@
+// src/core/BM25Index.ts
+
+import { TopK } from '../utils/heap';
+import { Tokenizer, TokenizerOptions, createTokenizer } from '../utils/tokenize';
+import { IdFilter } from './Index';
+
+export interface BM25Options extends TokenizerOptions {
+  /** Term-frequency saturation (default 1.2). */
+  k1?: number;
+  /** Document-length normalization, 0 (none) to 1 (full) (default 0.75). */
+  b?: number;
+}
+
+export interface LexicalHit {
+  id: string;
+  score: number;
+}
+
+/**
+ * Okapi BM25 over an inverted index of chunk contents. Postings map each term
+ * to the ids containing it and their term frequency; document lengths are
+ * kept so `b` can normalize long chunks. Exact terms such as product codes
+ * and names match here even when their embeddings do not.
+ */
+export class BM25Index {
+  public readonly tokenize: Tokenizer;
+  private k1: number;
+  private b: number;
+
+  private postings = new Map<string, Map<string, number>>(); // term -> id -> tf
+  private lengths = new Map<string, number>();
+  private terms = new Map<string, string[]>();                // id -> distinct terms
+  private totalLength = 0;
+
+  constructor(options: BM25Options = {}) {
+    this.tokenize = createTokenizer(options);
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  public get size(): number {
+    return this.lengths.size;
+  }
+
+  /** Index `text` under `id`, replacing any earlier entry. */
+  public add(id: string, text: string): void {
+    if (this.lengths.has(id)) this.remove(id);
+
+    const tokens = this.tokenize(text);
+    const counts = new Map<string, number>();
+    for (const term of tokens) counts.set(term, (counts.get(term) ?? 0) + 1);
+
+    for (const [term, tf] of counts) {
+      let posting = this.postings.get(term);
+      if (!posting) this.postings.set(term, (posting = new Map()));
+      posting.set(id, tf);
+    }
+    this.lengths.set(id, tokens.length);
+    this.terms.set(id, Array.from(counts.keys()));
+    this.totalLength += tokens.length;
+  }
+
+  public remove(id: string): boolean {
+    const length = this.lengths.get(id);
+    if (length === undefined) return false;
+
+    for (const term of this.terms.get(id)!) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    }
+    this.lengths.delete(id);
+    this.terms.delete(id);
+    this.totalLength -= length;
+    return true;
+  }
+
+  public clear(): void {
+    this.postings.clear();
+    this.lengths.clear();
+    this.terms.clear();
+    this.totalLength = 0;
+  }
+
+  /** Number of indexed chunks containing `term` (already tokenized). */
+  public documentFrequency(term: string): number {
+    return this.postings.get(term)?.size ?? 0;
+  }
+
+  /**
+   * The `k` highest-scoring ids for `query`, best first. Each distinct query
+   * term contributes once; chunks matching no term are not returned.
+   */
+  public search(query: string, k: number, filter?: IdFilter): LexicalHit[] {
+    if (k <= 0 || this.size === 0) return [];
+
+    const n = this.size;
+    const avgLength = this.totalLength / n || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(this.tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, tf] of posting) {
+        if (filter && !filter(id)) continue;
+        const norm = this.k1 * (1 - this.b + (this.b * this.lengths.get(id)!) / avgLength);
+        scores.set(id, (scores.get(id) ?? 0) + (idf * tf * (this.k1 + 1)) / (tf + norm));
+      }
+    }
+
+    const top = new TopK<string>(k);
+    for (const [id, score] of scores) top.offer(id, -score);
+    return top.sorted().map(entry => ({ id: entry.item, score: -entry.distance }));
+  }
+}
@@ -0,0 +1,273 @@
+// src/core/BinaryCodeStore.ts
+
+import { BinaryHeap } from '../utils/heap';
+import { POPCOUNT_16 } from '../utils/popcount';
+import { sharedInt32Array, sharedUint32Array, sharedUint8Array } from '../utils/shared';
+import { WorkerPool } from './WorkerPool';
+
+export type BinaryThreshold = 'sign' | 'median';
+
+export interface BinaryCodeOptions {
+  /** Code width in bits: a multiple of 32 between 64 and 1024 (default 64). */
+  bits?: number;
+  /** `sign` thresholds every dimension at `signThreshold`; `median` at the per-dimension median. */
+  threshold?: BinaryThreshold;
+  /**
+   * Value a dimension must exceed to become a 1 bit in `sign` mode (default 0).
+   * UltraVectorDB passes its embedder's `binaryThreshold`.
+   */
+  signThreshold?: number;
+}
+
+/**
+ * Bit-packed binary codes for the whole collection in one contiguous
+ * Uint32Array (row-major, `bits / 32` words per chunk).
+ *
+ * Bit i is dimension i of the full vector thresholded, so a code is a
+ * Matryoshka-style prefix of the vector. Scans XOR whole words and count bits
+ * with a 16-bit popcount table. `nearestBatch` hands workers a shared copy of
+ * the rows, so a remove during the scan cannot shift codes under it. Equal
+ * distances are ordered by id, so results do not depend on row order (which
+ * `remove` changes) and a reloaded collection answers exactly as the saved one.
+ */
+export class BinaryCodeStore {
+  public readonly bits: number;
+  public readonly threshold: BinaryThreshold;
+  private words: number;
+
+  private codes: Uint32Array;
+  private ids: string[] = [];
+  private rowOf = new Map<string, number>();
+  private thresholds: Float32Array;
+
+  constructor(dimensions: number, options: BinaryCodeOptions = {}) {
+    this.bits = options.bits ?? 64;
+    this.threshold = options.threshold ?? 'sign';
+
+    if (this.bits < 64 || this.bits > 1024 || this.bits % 32 !== 0) {
+      throw new Error(`Binary code width must be a multiple of 32 between 64 and 1024, got ${this.bits}`);
+    }
+    if (this.bits > dimensions) {
+      throw new Error(`Binary code width (${this.bits}) cannot exceed vector dimensions (${dimensions})`);
+    }
+
+    this.words = this.bits / 32;
+    this.codes = new Uint32Array(this.words * 1024);
+    this.thresholds = new Float32Array(this.bits).fill(options.signThreshold ?? 0); // until fitted
+  }
+
+  public get size(): number {
+    return this.ids.length;
+  }
+
+  /** Bytes held by the code buffer (allocated capacity, not just used rows). */
+  public get byteLength(): number {
+    return this.codes.byteLength;
+  }
+
+  public encode(vector: Float32Array): Uint32Array {
+    const code = new Uint32Array(this.words);
+    for (let i = 0; i < this.bits; i++) {
+      if (vector[i] > this.thresholds[i]) {
+        code[i >>> 5] |= 1 << (i & 31);
+      }
+    }
+    return code;
+  }
+
+  public add(id: string, vector: Float32Array): void {
+    let row = this.rowOf.get(id);
+    if (row === undefined) {
+      row = this.ids.length;
+      this.ensureCapacity(row + 1);
+      this.ids.push(id);
+      this.rowOf.set(id, row);
+    }
+    this.codes.set(this.encode(vector), row * this.words);
+  }
+
+  /**
+   * Remove a row by moving the last row into its slot, keeping the buffer dense.
+   */
+  public remove(id: string): boolean {
+    const row = this.rowOf.get(id);
+    if (row === undefined) return false;
+
+    const last = this.ids.length - 1;
+    if (row !== last) {
+      const lastId = this.ids[last];
+      this.codes.copyWithin(row * this.words, last * this.words, (last + 1) * this.words);
+      this.ids[row] = lastId;
+      this.rowOf.set(lastId, row);
+    }
+
+    this.ids.pop();
+    this.rowOf.delete(id);
+    this.codes.fill(0, last * this.words, (last + 1) * this.words);
+    return true;
+  }
+
+  public clear(): void {
+    this.ids = [];
+    this.rowOf.clear();
+    this.codes.fill(0);
+  }
+
+  /** Per-dimension thresholds in use (`signThreshold` until `fit`); stored in snapshots. */
+  public get thresholdValues(): Float32Array {
+    return this.thresholds.slice();
+  }
+
+  /**
+   * For `median` mode: set each dimension's threshold to its median over
+   * `vectors` and re-encode every row via `getVector`.
+   */
+  public fit(vectors: Iterable<Float32Array>, getVector: (id: string) => Float32Array): void {
+    if (this.threshold !== 'median') return;
+
+    const columns: number[][] = Array.from({ length: this.bits }, () => []);
+    for (const v of vectors) {
+      for (let i = 0; i < this.bits; i++) columns[i].push(v[i]);
+    }
+    if (!columns[0].length) return;
+
+    const thresholds = new Float32Array(this.bits);
+    for (let i = 0; i < this.bits; i++) {
+      const sorted = columns[i].sort((a, b) => a - b);
+      thresholds[i] = sorted[sorted.length >> 1];
+    }
+    this.setThresholds(thresholds, getVector);
+  }
+
+  /** Use previously fitted `thresholds` (see `thresholdValues`) and re-encode every row. */
+  public setThresholds(thresholds: Float32Array, getVector: (id: string) => Float32Array): void {
+    if (thresholds.length !== this.bits) {
+      throw new Error(`Expected ${this.bits} binary thresholds, got ${thresholds.length}`);
+    }
+    this.thresholds.set(thresholds);
+    for (let row = 0; row < this.ids.length; row++) {
+      this.codes.set(this.encode(getVector(this.ids[row])), row * this.words);
+    }
+  }
+
+  /** Hamming distance between `query` and the code stored for `id` (`bits`, the maximum, if absent). */
+  public distance(query: Uint32Array, id: string): number {
+    const row = this.rowOf.get(id);
+    if (row === undefined) return this.bits;
+
+    let distance = 0;
+    const base = row * this.words;
+    for (let w = 0; w < this.words; w++) {
+      const x = (this.codes[base + w] ^ query[w]) >>> 0;
+      distance += POPCOUNT_16[x & 0xffff] + POPCOUNT_16[x >>> 16];
+    }
+    return distance;
+  }
+
+  /**
+   * Hamming-scan every row against `query` and return the `limit` closest ids
+   * (closest first, ties by id). A bounded max-heap keeps this O(N log limit).
+   */
+  public nearest(
+    query: Uint32Array,
+    limit: number,
+    accept?: (id: string) => boolean
+  ): { id: string; distance: number }[] {
+    if (limit <= 0) return [];
+    // worst (largest distance, then largest id) on top
+    const top = new BinaryHeap<{ id: string; distance: number }>((a, b) => compareHits(b, a));
+    const codes = this.codes;
+    const words = this.words;
+
+    for (let row = 0; row < this.ids.length; row++) {
+      const id = this.ids[row];
+      if (accept && !accept(id)) continue;
+
+      let distance = 0;
+      const base = row * words;
+      for (let w = 0; w < words; w++) {
+        const x = (codes[base + w] ^ query[w]) >>> 0;
+        distance += POPCOUNT_16[x & 0xffff] + POPCOUNT_16[x >>> 16];
+      }
+
+      const hit = { id, distance };
+      if (top.size < limit) top.push(hit);
+      else if (compareHits(hit, top.peek()!) < 0) top.replaceTop(hit);
+    }
+
+    return top.toArray().sort(compareHits);
+  }
+
+  /**
+   * `nearest` for many queries, split across `pool`. `accept` is evaluated
+   * once per row here and applies to every query. Results are in query order.
+   */
+  public async nearestBatch(
+    queries: Uint32Array[],
+    limit: number,
+    pool: WorkerPool,
+    accept?: (id: string) => boolean
+  ): Promise<{ id: string; distance: number }[][]> {
+    const words = this.words;
+    // rows move when a chunk is removed, so the workers scan a copy taken with the ids
+    const ids = this.ids.slice();
+    const codes = sharedUint32Array(ids.length * words);
+    codes.set(this.codes.subarray(0, ids.length * words));
+
+    const packed = sharedUint32Array(queries.length * words);
+    queries.forEach((query, i) => packed.set(query.subarray(0, words), i * words));
+
+    // ties are broken by id, so the workers get each row's position in id order
+    const rank = sharedInt32Array(ids.length);
+    const byId = ids.map((_, row) => row).sort((a, b) => compareIds(ids[a], ids[b]));
+    byId.forEach((row, i) => (rank[row] = i));
+
+    let mask: Uint8Array | undefined;
+    if (accept) {
+      mask = sharedUint8Array(ids.length);
+      ids.forEach((id, row) => (mask![row] = accept(id) ? 1 : 0));
+    }
+
+    const parts = await pool.runSplit('binaryScan', queries.length, (start, end) => ({
+      codes,
+      words,
+      rows: ids.length,
+      queries: packed.subarray(start * words, end * words),
+      limit,
+      accept: mask,
+      rank
+    }));
+
+    const results: { id: string; distance: number }[][] = [];
+    for (const part of parts) {
+      for (let q = 0; q < part.offsets.length - 1; q++) {
+        const hits: { id: string; distance: number }[] = [];
+        for (let i = part.offsets[q]; i < part.offsets[q + 1]; i++) {
+          hits.push({ id: ids[part.rows[i]], distance: part.distances[i] });
+        }
+        results.push(hits);
+      }
+    }
+    return results;
+  }
+
+  private ensureCapacity(rows: number): void {
+    if (rows * this.words <= this.codes.length) return;
+
+    let capacity = this.codes.length * 2;
+    while (capacity < rows * this.words) capacity *= 2;
+
+    const next = new Uint32Array(capacity);
+    next.set(this.codes);
+    this.codes = next;
+  }
+}
+
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Hamming distance, then id. */
+function compareHits(a: { id: string; distance: number }, b: { id: string; distance: number }): number {
+  return a.distance - b.distance || compareIds(a.id, b.id);
+}
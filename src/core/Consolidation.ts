@@ -0,0 +1,82 @@
+// src/core/Consolidation.ts
+
+import { MetadataFilter, UltraChunk, UltraMetadata } from '../types';
+import { cosineSimilarity } from '../utils/cosineSimilarity';
+
+/** The chunk a cluster of near-duplicates is replaced by. */
+export interface MergedChunk {
+  /** Defaults to the id of the cluster's oldest chunk. */
+  id?: string;
+  content: string;
+  /** `sources` is added; document fields (`docId`, `chunkIndex`, offsets, `heading`) are dropped. */
+  metadata: UltraMetadata;
+  /** Precomputed `full` vector; without one the summary is embedded from `content`. */
+  full?: Float32Array;
+}
+
+/**
+ * Combine a cluster (oldest chunk first) into one chunk. May call a model to
+ * write a summary, or work without one like `mergeByMedoid`.
+ */
+export type MergeFunction = (chunks: UltraChunk[]) => MergedChunk | Promise<MergedChunk>;
+
+export interface ConsolidationOptions {
+  /** Only chunks last accessed (else created) at least this long ago take part (default 30 days). */
+  minAgeMs?: number;
+  /** Cosine between `full` vectors at which chunks count as near-duplicates (default 0.9). */
+  threshold?: number;
+  /** Smallest cluster worth merging (default 2). */
+  minClusterSize?: number;
+  /** Nearest neighbours examined per cluster seed (default 32). */
+  neighbors?: number;
+  /** Default `mergeByMedoid`. */
+  merge?: MergeFunction;
+  /** Restrict consolidation to matching chunks. */
+  filter?: MetadataFilter;
+  /** Current time in ms (default `Date.now()`). */
+  now?: number;
+}
+
+export interface ConsolidatedChunk {
+  id: string;
+  /** Original chunk ids, as stored in the merged chunk's `metadata.sources`. */
+  sources: string[];
+}
+
+/**
+ * Keep the cluster's medoid (the chunk with the highest total cosine to the
+ * others) and its vector, with merged bookkeeping metadata: the highest
+ * importance, earliest `created`, latest `lastAccessed`, summed `accessCount`,
+ * and the latest `expiresAt` when every chunk expires.
+ */
+export function mergeByMedoid(chunks: UltraChunk[]): MergedChunk {
+  const vectors = chunks.map(chunk => chunk.matryoshka.full);
+  let medoid = 0;
+  let best = -Infinity;
+  for (let i = 0; i < chunks.length; i++) {
+    let total = 0;
+    for (let j = 0; j < chunks.length; j++) if (i !== j) total += cosineSimilarity(vectors[i], vectors[j]);
+    if (total > best) {
+      best = total;
+      medoid = i;
+    }
+  }
+
+  const metadata: UltraMetadata = { ...chunks[medoid].metadata };
+  const values = (field: keyof UltraMetadata) =>
+    chunks.map(chunk => chunk.metadata[field]).filter((v): v is number => typeof v === 'number');
+
+  const importance = values('importance');
+  const created = values('created');
+  const lastAccessed = values('lastAccessed');
+  const accessCount = values('accessCount');
+  const expiresAt = values('expiresAt');
+  delete metadata.expiresAt;
+  if (importance.length) metadata.importance = Math.max(...importance);
+  if (created.length) metadata.created = Math.min(...created);
+  if (lastAccessed.length) metadata.lastAccessed = Math.max(...lastAccessed);
+  if (accessCount.length) metadata.accessCount = accessCount.reduce((sum, n) => sum + n, 0);
+  if (expiresAt.length === chunks.length) metadata.expiresAt = Math.max(...expiresAt);
+
+  return { content: chunks[medoid].content, metadata, full: vectors[medoid].slice() };
+}
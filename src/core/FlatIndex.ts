@@ -0,0 +1,119 @@
+// src/core/FlatIndex.ts
+
+import { DistanceMetric, Metric, dot, normalized, resolveMetric } from '../utils/distance';
+import { TopK } from '../utils/heap';
+import { PreparedQuery } from '../quantization/VectorQuantizer';
+import { QuantizedVectorStore } from '../quantization/QuantizedVectorStore';
+import { ExactVectors, IdFilter, Index } from './Index';
+
+export interface FlatIndexOptions {
+  /** Distance used for scoring (default cosine). */
+  metric?: Metric;
+}
+
+/**
+ * Exact nearest-neighbor search by scanning every vector. Right for small
+ * collections and as ground truth when evaluating the approximate indexes.
+ */
+export class FlatIndex implements Index {
+  public readonly kind = 'flat';
+  private ids: string[] = [];
+  private vectors: (Float32Array | null)[] = []; // unit length under cosine; null once quantized
+  private rowOf = new Map<string, number>();
+  private metric: DistanceMetric;
+  private quantized: QuantizedVectorStore | null = null;
+
+  constructor(options: FlatIndexOptions = {}) {
+    this.metric = resolveMetric(options.metric);
+  }
+
+  public get size(): number {
+    return this.ids.length;
+  }
+
+  public get metricName(): string {
+    return this.metric.name;
+  }
+
+  public has(id: string): boolean {
+    return this.rowOf.has(id);
+  }
+
+  public insert(id: string, vector: Float32Array): void {
+    const stored = this.quantized ? null : this.metric.normalizes ? normalized(vector) : vector;
+    const row = this.rowOf.get(id);
+    if (row !== undefined) {
+      this.vectors[row] = stored;
+      return;
+    }
+
+    this.rowOf.set(id, this.ids.length);
+    this.ids.push(id);
+    this.vectors.push(stored);
+  }
+
+  public remove(id: string): boolean {
+    const row = this.rowOf.get(id);
+    if (row === undefined) return false;
+
+    const last = this.ids.length - 1;
+    if (row !== last) {
+      this.ids[row] = this.ids[last];
+      this.vectors[row] = this.vectors[last];
+      this.rowOf.set(this.ids[row], row);
+    }
+
+    this.ids.pop();
+    this.vectors.pop();
+    this.rowOf.delete(id);
+    return true;
+  }
+
+  /**
+   * Score from `store` (which must hold a code for every id, and for every id
+   * inserted afterwards) instead of float vectors.
+   */
+  public useQuantizedVectors(store: QuantizedVectorStore): void {
+    this.quantized = store;
+    this.vectors.fill(null);
+  }
+
+  public search(query: Float32Array, k: number, filter?: IdFilter, exact?: ExactVectors): string[] {
+    const metric = this.metric;
+    const q = metric.normalizes ? normalized(query) : query;
+    const prepared = this.quantized ? this.quantized.prepare(q) : null;
+
+    const top = new TopK<string>(k);
+    for (let row = 0; row < this.ids.length; row++) {
+      const id = this.ids[row];
+      if (filter && !filter(id)) continue;
+      top.offer(id, this.distance(q, prepared, row));
+    }
+
+    const results = top.sorted().map(r => r.item);
+    if (!exact) return results;
+
+    return results
+      .map(id => {
+        const v = exact(id);
+        return { id, distance: v ? metric.distance(query, v) : Infinity };
+      })
+      .sort((a, b) => a.distance - b.distance)
+      .map(r => r.id);
+  }
+
+  private distance(query: Float32Array, prepared: PreparedQuery | null, row: number): number {
+    const metric = this.metric;
+    const vector = this.vectors[row];
+
+    if (!vector) {
+      const store = this.quantized!;
+      const id = this.ids[row];
+      if (metric.fromDot) return metric.fromDot(store.dot(prepared!, id), prepared!.norm, store.norm(id));
+      return metric.distance(query, store.decode(id) ?? new Float32Array(0));
+    }
+
+    if (metric.normalizes) return 1 - dot(query, vector);
+    return metric.distance(query, vector);
+  }
+}
@@ -1,191 +1,794 @@
 // src/core/HNSWGraph.ts
 
-import { cosineSimilarity } from '../utils/cosineSimilarity';
+import { DistanceMetric, METRICS, Metric, MetricName, normalized, resolveMetric, restoreMetric } from '../utils/distance';
+import { BinaryHeap } from '../utils/heap';
+import { RandomSource } from '../utils/random';
+import { sharedFloat32Array, sharedInt32Array } from '../utils/shared';
+import { PreparedQuery } from '../quantization/VectorQuantizer';
+import { QuantizedVectorStore } from '../quantization/QuantizedVectorStore';
+import { BulkInsertOptions, ExactVectors, IdFilter, Index } from './Index';
+import { GraphTaskResult, SharedGraphView } from './graphKernel';
+
+/**
+ * Exact graph topology, enough to rebuild the graph without re-inserting.
+ * Neighbor lists are indices into `nodes`; vectors are supplied separately.
+ */
+export interface HNSWSnapshot {
+  M: number;
+  M0: number;
+  /** Name of the distance metric the graph was built with. */
+  metric: string;
+  extendCandidates: boolean;
+  keepPrunedConnections: boolean;
+  efConstruction: number;
+  L_f: number;
+  maxLevel: number;
+  entryPointId: string | null;
+  nodes: { id: string; level: number; neighbors: number[][] }[];
+}
+
+export interface HNSWOptions {
+  /** Max neighbors per node on layer 0 (default `2 * M`). */
+  M0?: number;
+  /** Also consider the candidates' own neighbors when selecting links (default false). */
+  extendCandidates?: boolean;
+  /** Top up with pruned candidates when the heuristic keeps fewer than M (default false). */
+  keepPrunedConnections?: boolean;
+  /** Source for level assignment; pass `seededRandom(seed)` for reproducible builds. */
+  random?: RandomSource;
+  /** Distance used for traversal and exact reranking (default cosine). */
+  metric?: Metric;
+}
+
+/** A vector being compared against nodes: raw, plus ADC tables when quantized. */
+interface GraphQuery {
+  vector: Float32Array;
+  prepared: PreparedQuery | null;
+}
 
-interface HNSWNode {
-  id: string;
-  vector: Float32Array;           // typically medium (256d) Matryoshka vector
-  level: number;
-  neighbors: Map<number, Set<string>>; // layer -> neighbor IDs
+interface Scored {
+  slot: number;
+  distance: number;
 }
 
-export class HNSWGraph {
-  private graph = new Map<string, HNSWNode>();
+const closestFirst = (a: Scored, b: Scored) => a.distance - b.distance;
+const furthestFirst = (a: Scored, b: Scored) => b.distance - a.distance;
+
+export class HNSWGraph implements Index {
+  public readonly kind = 'hnsw';
+  // Nodes live in integer slots; string ids are only resolved at the API edge.
+  // Removed slots are recycled through `freeSlots`. Per-slot state sits in flat
+  // typed arrays (shared where possible) so worker threads can read the graph
+  // in place, see `sharedView()`.
+  private ids: (string | null)[] = [];
+  private slots = new Map<string, number>();
+  private freeSlots: number[] = [];
+  private capacity = 0;
+  private levels = sharedInt32Array(0);        // -1 marks a free slot
+  private dimensions = 0;
+  private vectors: Float32Array | null = null; // capacity x dimensions, unit length under cosine; null once quantized
+  private links0 = sharedInt32Array(0);        // M0 + 1 ints per slot: count, then neighbor slots
+  private upperOffset = sharedInt32Array(0);   // slot -> start of its block in upperLinks
+  private upperLinks = sharedInt32Array(0);    // per slot, `level` runs of M + 1 ints
+  private upperUsed = 0;
+  private inbound: number[][][] = [];          // slot -> layer -> slots linking to it (reverse edges)
   private maxLevel = 0;
-  private entryPointId: string | null = null;
+  private entryPoint = -1;
+  private quantized: QuantizedVectorStore | null = null;
+
+  // visited[slot] === visitEpoch marks a slot as seen by the current searchLayer call
+  private visited = new Uint32Array(0);
+  private visitEpoch = 0;
+
+  private M0: number;
+  private extendCandidates: boolean;
+  private keepPrunedConnections: boolean;
+  private random: RandomSource;
+  private metric: DistanceMetric;
 
   /**
-   * @param M              max neighbors per node per layer
+   * @param M              max neighbors per node on layers above 0
    * @param efConstruction beam width during graph construction
    * @param L_f            level decay factor
    */
   constructor(
     private M: number = 16,
     private efConstruction: number = 200,
-    private L_f: number = 1 / Math.log(2)
-  ) {}
+    private L_f: number = 1 / Math.log(2),
+    options: HNSWOptions = {}
+  ) {
+    this.M0 = options.M0 ?? 2 * M;
+    this.extendCandidates = options.extendCandidates ?? false;
+    this.keepPrunedConnections = options.keepPrunedConnections ?? false;
+    this.random = options.random ?? Math.random;
+    this.metric = resolveMetric(options.metric);
+  }
+
+  public get metricName(): string {
+    return this.metric.name;
+  }
 
   private getRandomLevel(): number {
-    return Math.floor(-Math.log(Math.random()) * this.L_f);
+    return Math.floor(-Math.log(1 - this.random()) * this.L_f);
+  }
+
+  private maxConnections(layer: number): number {
+    return layer === 0 ? this.M0 : this.M;
   }
 
   public insert(id: string, vector: Float32Array): void {
-    const level = this.getRandomLevel();
-    const newNode: HNSWNode = { id, vector, level, neighbors: new Map() };
+    // re-inserting replaces the old node instead of leaving stale back-edges
+    if (this.slots.has(id)) this.remove(id);
+    this.insertNode(id, this.metric.normalizes ? normalized(vector) : vector, this.getRandomLevel());
+  }
 
-    for (let l = 0; l <= level; l++) {
-      newNode.neighbors.set(l, new Set());
+  /**
+   * Insert many vectors at once. With a worker pool, the candidate searches for
+   * the whole batch run in parallel against the graph as it was before the
+   * batch; the main thread then links the new nodes in order, adding earlier
+   * members of the same batch as candidates by brute force. The result does
+   * not depend on the number of workers. Without a pool, on a quantized graph
+   * or with a custom metric this is a loop over `insert`.
+   *
+   * Later entries win when an id repeats; existing ids are replaced.
+   */
+  public async insertBulk(entries: [string, Float32Array][], options: BulkInsertOptions = {}): Promise<void> {
+    const batch = new Map<string, Float32Array>();
+    for (const [id, vector] of entries) {
+      batch.delete(id);
+      batch.set(id, vector);
+    }
+
+    const pool = options.pool;
+    if (!pool || this.quantized || !this.builtinMetric()) {
+      for (const [id, vector] of batch) this.insert(id, vector);
+      return;
     }
 
+    for (const id of batch.keys()) if (this.slots.has(id)) this.remove(id);
+
+    const pending = Array.from(batch, ([id, vector]) => ({
+      id,
+      vector: this.metric.normalizes ? normalized(vector) : vector,
+      level: this.getRandomLevel()
+    }));
+
+    // the workers need a graph to search
+    if (this.entryPoint < 0 && pending.length > 0) {
+      const first = pending.shift()!;
+      this.insertNode(first.id, first.vector, first.level);
+    }
+    if (pending.length === 0) return;
+
+    const dims = this.dimensions;
+    const queries = sharedFloat32Array(pending.length * dims);
+    const levels = sharedInt32Array(pending.length);
+    pending.forEach((p, i) => {
+      this.checkDimensions(p.vector);
+      queries.set(p.vector, i * dims);
+      levels[i] = p.level;
+    });
+
+    const view = this.sharedView();
+    const parts = await pool.runSplit('graph', pending.length, (start, end) => ({
+      graph: view,
+      queries: queries.subarray(start * dims, end * dims),
+      levels: levels.subarray(start, end),
+      ef: this.efConstruction
+    }));
+    const found = this.groupsPerQuery(parts, pending.map(p => Math.min(p.level, view.maxLevel) + 1));
+
+    const added: number[] = [];
+    pending.forEach((p, i) => {
+      // inserted by someone else while the workers ran; the newer vector wins
+      if (this.slots.has(p.id)) return;
+      const query = this.queryFor(p.vector, true);
+      const slot = this.allocate(p.id, p.level, p.vector);
+
+      for (let l = Math.min(p.level, this.maxLevel); l >= 0; l--) {
+        const candidates = new Map<number, number>();
+        const group = l <= view.maxLevel ? found[i][Math.min(p.level, view.maxLevel) - l] : [];
+        for (const c of group) {
+          // a slot freed while the workers ran may be gone or reused
+          if (c !== slot && this.levels[c] >= l) candidates.set(c, this.distance(query, c));
+        }
+        for (const other of added) {
+          if (this.levels[other] >= l && !candidates.has(other)) candidates.set(other, this.distance(query, other));
+        }
+        // keep the same candidate budget as a sequential insert
+        const scored = Array.from(candidates, ([c, distance]) => ({ slot: c, distance }))
+          .sort(closestFirst)
+          .slice(0, this.efConstruction);
+        this.link(slot, query, scored, l);
+      }
+
+      added.push(slot);
+      if (p.level > this.maxLevel) {
+        this.maxLevel = p.level;
+        this.entryPoint = slot;
+      }
+    });
+  }
+
+  /** Split worker output into candidate lists: result[query][k] is the k-th layer searched, top first. */
+  private groupsPerQuery(parts: GraphTaskResult[], groupCounts: number[]): number[][][] {
+    const out: number[][][] = [];
+    for (const part of parts) {
+      let group = 0;
+      while (group < part.offsets.length - 1) {
+        const layers: number[][] = [];
+        for (let k = 0; k < groupCounts[out.length]; k++, group++) {
+          layers.push(Array.from(part.slots.subarray(part.offsets[group], part.offsets[group + 1])));
+        }
+        out.push(layers);
+      }
+    }
+    return out;
+  }
+
+  private insertNode(id: string, stored: Float32Array, level: number): void {
+    const query = this.queryFor(stored, true);
+
     // first node
-    if (this.graph.size === 0 || this.entryPointId === null) {
-      this.graph.set(id, newNode);
-      this.entryPointId = id;
+    if (this.entryPoint < 0) {
+      this.entryPoint = this.allocate(id, level, stored);
       this.maxLevel = level;
       return;
     }
 
-    // update global entry point if this node is higher than current max
+    // descend greedily through the layers above this node's level
+    let entry = [this.entryPoint];
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = [this.searchLayer(query, 1, l, entry)[0].slot];
+    }
+
+    // the node is linked before it becomes reachable, so searches above never see it half-built
+    const slot = this.allocate(id, level, stored);
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(query, this.efConstruction, l, entry);
+      this.link(slot, query, candidates, l);
+      entry = candidates.map(c => c.slot);
+    }
+
     if (level > this.maxLevel) {
       this.maxLevel = level;
-      this.entryPointId = id;
+      this.entryPoint = slot;
     }
+  }
 
-    let currentEntryId = this.entryPointId;
+  /** Choose `slot`'s neighbors on `layer` from `candidates` and add the back-edges. */
+  private link(slot: number, query: GraphQuery, candidates: Scored[], layer: number): void {
+    const selected = this.selectNeighbors(query, candidates, Math.min(this.M, this.maxConnections(layer)), layer);
+    this.setNeighbors(slot, layer, selected);
+    for (const neighbor of selected) this.addNeighbor(neighbor, layer, slot);
+  }
 
-    // top-down search from maxLevel down to this node's level
-    for (let l = this.maxLevel; l > level; l--) {
-      const candidates = this.searchLayer(vector, 1, l, currentEntryId);
-      if (candidates.length > 0) currentEntryId = candidates[0];
-    }
+  /**
+   * Remove a node and repair the graph around it. On every layer the node
+   * lived on, each node that pointed at it (found through the reverse edges,
+   * so the cost depends on the node's degree, not the graph size) is re-linked
+   * using the removed node's neighbors as extra candidates, so the hole does
+   * not split the graph.
+   */
+  public remove(id: string): boolean {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return false;
+    const level = this.levels[slot];
+    const removedNeighbors = Array.from({ length: level + 1 }, (_, l) => this.neighbors(slot, l));
 
-    // for each level this node participates in, connect neighbors
-    for (let l = level; l >= 0; l--) {
-      const candidates = this.searchLayer(vector, this.efConstruction, l, currentEntryId);
-      const selectedNeighbors = this.selectNeighbors(candidates, this.M, vector, l);
+    this.slots.delete(id);
+    this.ids[slot] = null;
+    this.levels[slot] = -1;
+    this.freeSlots.push(slot);
 
-      for (const neighborId of selectedNeighbors) {
-        newNode.neighbors.get(l)!.add(neighborId);
+    for (let l = 0; l <= level; l++) {
+      // edges are not guaranteed symmetric after trimming, so drop every in-edge
+      // before re-linking, so no list still points at the freed slot
+      this.setNeighbors(slot, l, []);
+      const affected: number[] = this.inbound[slot][l]?.slice() ?? [];
+      for (const o of affected) this.dropNeighbor(o, l, slot);
+
+      for (const o of affected) {
+        const candidates = new Set(this.neighbors(o, l));
+        for (const candidate of removedNeighbors[l]) {
+          if (candidate !== o && candidate !== slot && this.levels[candidate] >= 0) candidates.add(candidate);
+        }
 
-        const neighborNode = this.graph.get(neighborId);
-        if (neighborNode) {
-          if (!neighborNode.neighbors.has(l)) {
-            neighborNode.neighbors.set(l, new Set());
-          }
-          neighborNode.neighbors.get(l)!.add(id);
-          this.trimNeighbors(neighborNode, l, this.M);
+        const query = this.nodeQuery(o);
+        const scored = Array.from(candidates, c => ({ slot: c, distance: this.distance(query, c) }));
+        const selected = this.selectNeighbors(query, scored, this.maxConnections(l), l);
+        this.setNeighbors(o, l, selected);
+
+        for (const neighbor of selected) {
+          if (!this.neighbors(neighbor, l).includes(o)) this.addNeighbor(neighbor, l, o);
         }
       }
+    }
 
-      if (candidates.length > 0) {
-        currentEntryId = candidates[0];
+    if (this.entryPoint === slot) {
+      this.entryPoint = -1;
+      this.maxLevel = 0;
+      for (let o = 0; o < this.ids.length; o++) {
+        if (this.levels[o] >= 0 && (this.entryPoint < 0 || this.levels[o] > this.maxLevel)) {
+          this.entryPoint = o;
+          this.maxLevel = this.levels[o];
+        }
       }
     }
 
-    this.graph.set(id, newNode);
+    return true;
+  }
+
+  public has(id: string): boolean {
+    return this.slots.has(id);
   }
 
-  public search(queryVector: Float32Array, ef: number, targetLevel: number = 0): string[] {
-    if (!this.entryPointId || this.graph.size === 0) return [];
+  /**
+   * Switch traversal to quantized codes: node vectors are dropped and every
+   * distance is computed from `store` (which must hold a code for every node,
+   * and for every node inserted afterwards before `insert` is called).
+   */
+  public useQuantizedVectors(store: QuantizedVectorStore): void {
+    this.quantized = store;
+    this.vectors = null;
+  }
 
-    let currentEntryId = this.entryPointId;
+  /**
+   * The graph's storage as a `SharedGraphView` for `graphKernel`. The arrays are
+   * live: later inserts and removes edit link lists in place, but growth and
+   * compaction allocate new arrays, so the view stays self-consistent. Needs
+   * float vectors and a built-in metric.
+   */
+  public sharedView(): SharedGraphView {
+    if (this.quantized) throw new Error('A quantized HNSWGraph has no float vectors to share');
+    if (!this.builtinMetric()) throw new Error(`Custom metric "${this.metric.name}" cannot run in graph workers`);
+
+    return {
+      dimensions: this.dimensions,
+      metric: this.metric.name as MetricName,
+      M: this.M,
+      M0: this.M0,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      levels: this.levels,
+      vectors: this.vectors ?? new Float32Array(0),
+      links0: this.links0,
+      upperOffset: this.upperOffset,
+      upperLinks: this.upperLinks
+    };
+  }
+
+  /**
+   * @param filter optional id predicate. Rejected nodes are still traversed
+   *               (so the walk does not stall behind them) but never returned.
+   * @param exact  optional full-precision vectors; when given, the results of a
+   *               quantized traversal are re-ranked by the exact metric.
+   * @param targetLevel layer to return results from (0 = every node)
+   */
+  public search(
+    queryVector: Float32Array,
+    ef: number,
+    filter?: IdFilter,
+    exact?: ExactVectors,
+    targetLevel: number = 0
+  ): string[] {
+    if (this.entryPoint < 0) return [];
+
+    const query = this.queryFor(queryVector);
+    let entry = [this.entryPoint];
 
     // coarse search from top down
     for (let l = this.maxLevel; l > targetLevel; l--) {
-      const candidates = this.searchLayer(queryVector, 1, l, currentEntryId);
-      if (candidates.length > 0) currentEntryId = candidates[0];
+      entry = [this.searchLayer(query, 1, l, entry)[0].slot];
     }
 
     // fine search at target layer
-    return this.searchLayer(queryVector, ef, targetLevel, currentEntryId);
+    const accept = filter && ((slot: number) => filter(this.ids[slot]!));
+    const results = this.searchLayer(query, ef, targetLevel, entry, accept).map(r => this.ids[r.slot]!);
+    if (!exact) return results;
+
+    return results
+      .map(id => {
+        const v = exact(id);
+        return { id, distance: v ? this.metric.distance(queryVector, v) : Infinity };
+      })
+      .sort((a, b) => a.distance - b.distance)
+      .map(r => r.id);
   }
 
-  private searchLayer(
-    query: Float32Array,
-    ef: number,
-    layer: number,
-    entryPointId: string
-  ): string[] {
-    const entryNode = this.graph.get(entryPointId);
-    if (!entryNode) return [];
+  private builtinMetric(): boolean {
+    return METRICS[this.metric.name as MetricName] === this.metric;
+  }
 
-    const visited = new Set<string>([entryPointId]);
-    const candidates: { id: string; distance: number }[] = [];
+  private allocate(id: string, level: number, vector: Float32Array): number {
+    const slot = this.freeSlots.length > 0 ? this.freeSlots.pop()! : this.ids.length;
+    this.ensureCapacity(slot + 1);
+
+    this.ids[slot] = id;
+    this.slots.set(id, slot);
+    this.links0[slot * (this.M0 + 1)] = 0;
+    // reserving may compact into a new offset table, so index it afterwards
+    const upperOffset = this.reserveUpperLinks(level);
+    this.upperOffset[slot] = upperOffset;
+    this.inbound[slot] = [];
+    this.levels[slot] = level;
+
+    if (!this.quantized) {
+      if (!this.vectors) {
+        this.dimensions = vector.length;
+        this.vectors = sharedFloat32Array(this.capacity * this.dimensions);
+      }
+      this.checkDimensions(vector);
+      this.vectors.set(vector, slot * this.dimensions);
+    }
+    return slot;
+  }
 
-    const distEntry = 1 - cosineSimilarity(query, entryNode.vector);
-    candidates.push({ id: entryPointId, distance: distEntry });
+  private checkDimensions(vector: Float32Array): void {
+    if (this.dimensions > 0 && vector.length !== this.dimensions) {
+      throw new Error(`HNSWGraph holds ${this.dimensions}-dimensional vectors, got ${vector.length}`);
+    }
+  }
 
-    let changed = true;
-    while (changed) {
-      changed = false;
+  private ensureCapacity(slots: number): void {
+    if (slots <= this.capacity) return;
+    const capacity = Math.max(slots, this.capacity * 2, 64);
+
+    const levels = sharedInt32Array(capacity).fill(-1);
+    levels.set(this.levels);
+    const links0 = sharedInt32Array(capacity * (this.M0 + 1));
+    links0.set(this.links0);
+    const upperOffset = sharedInt32Array(capacity);
+    upperOffset.set(this.upperOffset);
+    if (this.vectors) {
+      const vectors = sharedFloat32Array(capacity * this.dimensions);
+      vectors.set(this.vectors);
+      this.vectors = vectors;
+    }
 
-      candidates.sort((a, b) => a.distance - b.distance);
-      const current = candidates[0];
-      const currentNode = this.graph.get(current.id);
-      if (!currentNode) break;
+    this.levels = levels;
+    this.links0 = links0;
+    this.upperOffset = upperOffset;
+    this.capacity = capacity;
+  }
 
-      const neighbors = currentNode.neighbors.get(layer) || new Set<string>();
+  /**
+   * Space for `level` upper-layer lists at the end of the pool. Blocks of removed
+   * nodes are only reclaimed when the pool is full and gets compacted; compaction
+   * writes a new pool and a new offset table, so a `sharedView` taken earlier
+   * keeps offsets that match its links.
+   */
+  private reserveUpperLinks(level: number): number {
+    const stride = this.M + 1;
+    const size = level * stride;
+    if (size === 0) return -1;
+
+    if (this.upperUsed + size > this.upperLinks.length) {
+      let live = 0;
+      for (let s = 0; s < this.ids.length; s++) if (this.levels[s] > 0) live += this.levels[s] * stride;
+
+      const pool = sharedInt32Array(Math.max(256, (live + size) * 2));
+      const offsets = sharedInt32Array(this.upperOffset.length);
+      offsets.set(this.upperOffset);
+      let used = 0;
+      for (let s = 0; s < this.ids.length; s++) {
+        const block = this.levels[s] * stride;
+        if (block <= 0) continue;
+        pool.set(this.upperLinks.subarray(this.upperOffset[s], this.upperOffset[s] + block), used);
+        offsets[s] = used;
+        used += block;
+      }
+      this.upperLinks = pool;
+      this.upperOffset = offsets;
+      this.upperUsed = used;
+    }
 
-      for (const neighborId of neighbors) {
-        if (visited.has(neighborId)) continue;
-        visited.add(neighborId);
+    const offset = this.upperUsed;
+    this.upperUsed += size;
+    for (let l = 0; l < level; l++) this.upperLinks[offset + l * stride] = 0;
+    return offset;
+  }
 
-        const neighborNode = this.graph.get(neighborId);
-        if (!neighborNode) continue;
+  /** Where `slot`'s list for `layer` starts (its count, then the neighbors). */
+  private linkBase(slot: number, layer: number): number {
+    return layer === 0 ? slot * (this.M0 + 1) : this.upperOffset[slot] + (layer - 1) * (this.M + 1);
+  }
 
-        const d = 1 - cosineSimilarity(query, neighborNode.vector);
-        candidates.push({ id: neighborId, distance: d });
+  private neighbors(slot: number, layer: number): number[] {
+    const links = layer === 0 ? this.links0 : this.upperLinks;
+    const base = this.linkBase(slot, layer);
+    return Array.from(links.subarray(base + 1, base + 1 + links[base]));
+  }
 
-        if (candidates.length > ef) {
-          candidates.sort((a, b) => a.distance - b.distance);
-          candidates.length = ef;
-        }
+  private setNeighbors(slot: number, layer: number, neighbors: number[]): void {
+    const max = this.maxConnections(layer);
+    if (neighbors.length > max) {
+      throw new Error(`Node "${this.ids[slot]}" has ${neighbors.length} links on layer ${layer}, above the cap of ${max}`);
+    }
+    const previous = this.neighbors(slot, layer);
+    for (const old of previous) if (!neighbors.includes(old)) this.dropInbound(old, layer, slot);
+    for (const neighbor of neighbors) if (!previous.includes(neighbor)) this.addInbound(neighbor, layer, slot);
+
+    const links = layer === 0 ? this.links0 : this.upperLinks;
+    const base = this.linkBase(slot, layer);
+    links[base] = neighbors.length;
+    links.set(neighbors, base + 1);
+  }
+
+  private addInbound(target: number, layer: number, source: number): void {
+    const layers = this.inbound[target];
+    if (!layers[layer]) layers[layer] = [];
+    layers[layer].push(source);
+  }
+
+  private dropInbound(target: number, layer: number, source: number): void {
+    const list = this.inbound[target][layer];
+    const at = list ? list.indexOf(source) : -1;
+    if (at < 0) return;
+    list[at] = list[list.length - 1];
+    list.pop();
+  }
+
+  /** Add a link, re-selecting the node's links on `layer` once they exceed that layer's cap. */
+  private addNeighbor(slot: number, layer: number, neighbor: number): void {
+    const links = layer === 0 ? this.links0 : this.upperLinks;
+    const base = this.linkBase(slot, layer);
+    const count = links[base];
+    const max = this.maxConnections(layer);
+    if (count < max) {
+      links[base + 1 + count] = neighbor;
+      links[base] = count + 1;
+      this.addInbound(neighbor, layer, slot);
+      return;
+    }
+
+    const query = this.nodeQuery(slot);
+    const scored = [...this.neighbors(slot, layer), neighbor].map(s => ({
+      slot: s,
+      distance: this.distance(query, s)
+    }));
+    this.setNeighbors(slot, layer, this.selectNeighbors(query, scored, max, layer));
+  }
+
+  /** @returns whether `neighbor` was in the list */
+  private dropNeighbor(slot: number, layer: number, neighbor: number): boolean {
+    const list = this.neighbors(slot, layer);
+    const at = list.indexOf(neighbor);
+    if (at < 0) return false;
+    list.splice(at, 1);
+    this.setNeighbors(slot, layer, list);
+    return true;
+  }
+
+  /** @param unit `vector` is already normalized (skips the copy under cosine) */
+  private queryFor(vector: Float32Array, unit = false): GraphQuery {
+    if (this.metric.normalizes && !unit) vector = normalized(vector);
+    return { vector, prepared: this.quantized ? this.quantized.prepare(vector) : null };
+  }
 
-        changed = true;
+  /** Query for node-to-node distances (decodes the node when quantized). */
+  private nodeQuery(slot: number): GraphQuery {
+    if (this.vectors) return this.queryFor(this.vectorAt(slot), true);
+    return this.queryFor(this.quantized!.decode(this.ids[slot]!) ?? new Float32Array(0));
+  }
+
+  private vectorAt(slot: number): Float32Array {
+    return this.vectors!.subarray(slot * this.dimensions, (slot + 1) * this.dimensions);
+  }
+
+  private distance(query: GraphQuery, slot: number): number {
+    const metric = this.metric;
+    const vectors = this.vectors;
+
+    if (!vectors) {
+      const store = this.quantized!;
+      const id = this.ids[slot]!;
+      if (metric.fromDot) {
+        return metric.fromDot(store.dot(query.prepared!, id), query.prepared!.norm, store.norm(id));
       }
+      return metric.distance(query.vector, store.decode(id) ?? new Float32Array(0));
     }
 
-    return candidates
-      .sort((a, b) => a.distance - b.distance)
-      .slice(0, ef)
-      .map(c => c.id);
+    // both sides are unit length under cosine, so the inner loop is a plain dot product;
+    // four accumulators let the multiplies overlap, which builds ~1.5x faster
+    if (metric.normalizes) {
+      const q = query.vector;
+      const dims = this.dimensions;
+      const offset = slot * dims;
+      let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+      let i = 0;
+      for (; i + 3 < dims; i += 4) {
+        s0 += q[i] * vectors[offset + i];
+        s1 += q[i + 1] * vectors[offset + i + 1];
+        s2 += q[i + 2] * vectors[offset + i + 2];
+        s3 += q[i + 3] * vectors[offset + i + 3];
+      }
+      for (; i < dims; i++) s0 += q[i] * vectors[offset + i];
+      return 1 - (s0 + s1 + s2 + s3);
+    }
+    return metric.distance(query.vector, this.vectorAt(slot));
   }
 
-  private selectNeighbors(
-    candidates: string[],
-    M: number,
-    newVector: Float32Array,
-    _layer: number
-  ): string[] {
-    if (candidates.length <= M) return candidates;
+  private beginVisit(): void {
+    if (this.visited.length < this.ids.length) {
+      this.visited = new Uint32Array(Math.max(this.ids.length, this.visited.length * 2));
+      this.visitEpoch = 0;
+    }
+    if (++this.visitEpoch === 0xffffffff) {
+      this.visited.fill(0);
+      this.visitEpoch = 1;
+    }
+  }
 
-    const scored = candidates.map(id => {
-      const node = this.graph.get(id);
-      if (!node) return { id, distance: Infinity };
-      const d = 1 - cosineSimilarity(newVector, node.vector);
-      return { id, distance: d };
-    });
+  /**
+   * Standard HNSW layer search: expand the closest unexpanded candidate (min-heap)
+   * while keeping the best `ef` results (max-heap), and stop once the closest
+   * candidate is further than the worst result, since nothing beyond it can improve the set.
+   * With `accept`, results only hold accepted nodes, but every node is still a candidate.
+   *
+   * @returns up to `ef` accepted nodes, closest first
+   */
+  private searchLayer(
+    query: GraphQuery,
+    ef: number,
+    layer: number,
+    entry: number[],
+    accept?: (slot: number) => boolean
+  ): Scored[] {
+    this.beginVisit();
+    const visited = this.visited;
+    const epoch = this.visitEpoch;
+    const links = layer === 0 ? this.links0 : this.upperLinks;
+
+    const candidates = new BinaryHeap<Scored>(closestFirst);
+    const results = new BinaryHeap<Scored>(furthestFirst);
+
+    for (const slot of entry) {
+      if (visited[slot] === epoch) continue;
+      visited[slot] = epoch;
+      const scored = { slot, distance: this.distance(query, slot) };
+      candidates.push(scored);
+      if (!accept || accept(slot)) results.push(scored);
+    }
+    while (results.size > ef) results.pop();
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (results.size >= ef && current.distance > results.peek()!.distance) break;
+      if (this.levels[current.slot] < layer) continue;
+
+      const base = this.linkBase(current.slot, layer);
+      const count = links[base];
+      for (let k = 1; k <= count; k++) {
+        const slot = links[base + k];
+        if (visited[slot] === epoch) continue;
+        visited[slot] = epoch;
+
+        const distance = this.distance(query, slot);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          const scored = { slot, distance };
+          candidates.push(scored);
+          if (!accept || accept(slot)) {
+            if (results.size < ef) results.push(scored);
+            else results.replaceTop(scored);
+          }
+        }
+      }
+    }
 
-    scored.sort((a, b) => a.distance - b.distance);
-    return scored.slice(0, M).map(s => s.id);
+    return results.toArray().sort(closestFirst);
   }
 
-  private trimNeighbors(node: HNSWNode, layer: number, M: number): void {
-    const neighborSet = node.neighbors.get(layer);
-    if (!neighborSet) return;
+  /**
+   * Neighbor selection heuristic (HNSW paper, algorithm 4): walk candidates
+   * closest first and keep one only if it is closer to the base than to every
+   * neighbor kept so far. This favours links in different directions over a
+   * tight cluster, which keeps the graph navigable on clustered data.
+   *
+   * @param query      the base element the candidates are scored against
+   * @param candidates candidate slots with their distance to `query`
+   */
+  private selectNeighbors(query: GraphQuery, candidates: Scored[], M: number, layer: number): number[] {
+    let working = candidates;
+
+    if (this.extendCandidates) {
+      const seen = new Set(candidates.map(c => c.slot));
+      working = candidates.slice();
+      for (const c of candidates) {
+        if (this.levels[c.slot] < layer) continue;
+        for (const slot of this.neighbors(c.slot, layer)) {
+          if (seen.has(slot)) continue;
+          seen.add(slot);
+          working.push({ slot, distance: this.distance(query, slot) });
+        }
+      }
+    }
 
-    const neighbors = Array.from(neighborSet);
-    if (neighbors.length <= M) return;
+    const ordered = working.slice().sort(closestFirst);
+    const selected: number[] = [];
+    const pruned: number[] = [];
 
-    const scored = neighbors.map(id => {
-      const n = this.graph.get(id);
-      if (!n) return { id, distance: Infinity };
-      const d = 1 - cosineSimilarity(node.vector, n.vector);
-      return { id, distance: d };
+    for (const candidate of ordered) {
+      if (selected.length >= M) break;
+
+      // node-to-node distances are only needed once something has been kept
+      const candidateQuery = selected.length > 0 ? this.nodeQuery(candidate.slot) : null;
+      const diverse = selected.every(s => this.distance(candidateQuery!, s) > candidate.distance);
+      (diverse ? selected : pruned).push(candidate.slot);
+    }
+
+    if (this.keepPrunedConnections) {
+      for (const slot of pruned) {
+        if (selected.length >= M) break;
+        selected.push(slot);
+      }
+    }
+
+    return selected;
+  }
+
+  public get size(): number {
+    return this.slots.size;
+  }
+
+  public toSnapshot(): HNSWSnapshot {
+    // snapshot positions skip free slots
+    const position = new Int32Array(this.ids.length).fill(-1);
+    const live: number[] = [];
+    for (let slot = 0; slot < this.ids.length; slot++) {
+      if (this.levels[slot] < 0) continue;
+      position[slot] = live.length;
+      live.push(slot);
+    }
+
+    return {
+      M: this.M,
+      M0: this.M0,
+      metric: this.metric.name,
+      extendCandidates: this.extendCandidates,
+      keepPrunedConnections: this.keepPrunedConnections,
+      efConstruction: this.efConstruction,
+      L_f: this.L_f,
+      maxLevel: this.maxLevel,
+      entryPointId: this.entryPoint < 0 ? null : this.ids[this.entryPoint],
+      nodes: live.map(slot => ({
+        id: this.ids[slot]!,
+        level: this.levels[slot],
+        neighbors: Array.from({ length: this.levels[slot] + 1 }, (_, l) =>
+          this.neighbors(slot, l).map(neighbor => position[neighbor])
+        )
+      }))
+    };
+  }
+
+  /**
+   * Rebuild a graph from `toSnapshot()` output. Node and neighbor order are
+   * preserved, so traversal (and therefore search results) is identical.
+   * The random source is not part of the snapshot; pass one to keep later inserts
+   * reproducible. A custom metric must be passed again, and a built-in one must match.
+   */
+  public static fromSnapshot(
+    snapshot: HNSWSnapshot,
+    getVector: (id: string) => Float32Array,
+    options: Pick<HNSWOptions, 'random' | 'metric'> = {}
+  ): HNSWGraph {
+    const graph = new HNSWGraph(snapshot.M, snapshot.efConstruction, snapshot.L_f, {
+      M0: snapshot.M0,
+      extendCandidates: snapshot.extendCandidates,
+      keepPrunedConnections: snapshot.keepPrunedConnections,
+      random: options.random,
+      metric: restoreMetric(snapshot.metric, options.metric)
     });
 
-    scored.sort((a, b) => a.distance - b.distance);
-    const keep = new Set(scored.slice(0, M).map(s => s.id));
-    node.neighbors.set(layer, keep);
+    for (const n of snapshot.nodes) {
+      const vector = getVector(n.id);
+      graph.allocate(n.id, n.level, graph.metric.normalizes ? normalized(vector) : vector);
+    }
+    // nodes were allocated in snapshot order, so snapshot positions are slots
+    snapshot.nodes.forEach((n, slot) => n.neighbors.forEach((layer, l) => graph.setNeighbors(slot, l, layer)));
+
+    graph.maxLevel = snapshot.maxLevel;
+    graph.entryPoint = snapshot.entryPointId === null ? -1 : graph.slots.get(snapshot.entryPointId) ?? -1;
+    return graph;
   }
 }
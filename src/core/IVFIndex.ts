@@ -0,0 +1,334 @@
+// src/core/IVFIndex.ts
+
+import { DistanceMetric, Metric, dot, normalized, resolveMetric, squaredL2 } from '../utils/distance';
+import { TopK } from '../utils/heap';
+import { kmeans, nearestCentroid } from '../utils/kmeans';
+import { ProductQuantizer, ProductQuantizerOptions } from '../quantization/ProductQuantizer';
+import { ExactVectors, IdFilter, Index } from './Index';
+
+export interface IVFOptions {
+  /** Number of k-means coarse clusters (default 64). */
+  lists?: number;
+  /** Lists scanned per query (default 8). */
+  nprobe?: number;
+  /** Store each vector's residual from its centroid as PQ codes instead of floats. */
+  pq?: ProductQuantizerOptions;
+  /** Vectors to collect before clustering; until then search is exhaustive (default 1000). */
+  trainingSize?: number;
+  /** k-means iterations for the coarse centroids (default 10). */
+  iterations?: number;
+  /**
+   * Distance used for scoring (default cosine). Lists are k-means clusters, so
+   * vectors are assigned to and queries probe lists by L2 to the centroids.
+   */
+  metric?: Metric;
+}
+
+/**
+ * What a snapshot keeps of an IVF index: its settings and, once trained, the
+ * centroids, the PQ codebooks and every list's ids (with their residual codes
+ * in PQ mode), so a reload neither re-clusters nor reassigns. Float vectors
+ * are supplied separately.
+ */
+export interface IVFSnapshot {
+  /** Name of the distance metric the index scores with. */
+  metric: string;
+  options: Omit<IVFOptions, 'metric'>;
+  trained: {
+    dimensions: number;
+    centroids: Float32Array;
+    codebooks: Float32Array[] | null;
+    lists: { ids: string[]; codes: Uint8Array[] }[];
+  } | null;
+}
+
+interface InvertedList {
+  ids: string[];
+  vectors: Float32Array[]; // float mode
+  codes: Uint8Array[];     // PQ mode: residual codes
+  norms: number[];         // PQ mode: norm of centroid + decoded residual
+}
+
+/**
+ * Inverted-file index: vectors are bucketed by their nearest k-means centroid
+ * and a query scans only the `nprobe` closest buckets. With `pq`, a bucket
+ * holds one byte per subspace per vector instead of floats, which is what
+ * makes it fit memory-constrained devices.
+ */
+export class IVFIndex implements Index {
+  public readonly kind = 'ivf';
+  public nprobe: number;
+  private listCount: number;
+  private trainingSize: number;
+  private iterations: number;
+  private pqOptions: ProductQuantizerOptions | undefined;
+  private metric: DistanceMetric;
+
+  private dimensions = 0;
+  private centroids: Float32Array | null = null; // lists x dimensions, row-major
+  private lists: InvertedList[] = [];
+  private pq: ProductQuantizer | null = null;
+  private pending = new Map<string, Float32Array>(); // vectors seen before training
+  private listOf = new Map<string, number>();         // id -> list, -1 while pending
+
+  constructor(options: IVFOptions = {}) {
+    this.listCount = options.lists ?? 64;
+    this.nprobe = options.nprobe ?? 8;
+    this.trainingSize = options.trainingSize ?? 1000;
+    this.iterations = options.iterations ?? 10;
+    this.pqOptions = options.pq;
+    this.metric = resolveMetric(options.metric);
+  }
+
+  public get size(): number {
+    return this.listOf.size;
+  }
+
+  public get metricName(): string {
+    return this.metric.name;
+  }
+
+  public get trained(): boolean {
+    return this.centroids !== null;
+  }
+
+  /** Construction settings (everything but the metric). */
+  public get settings(): Omit<IVFOptions, 'metric'> {
+    return {
+      lists: this.listCount,
+      nprobe: this.nprobe,
+      trainingSize: this.trainingSize,
+      iterations: this.iterations,
+      ...(this.pqOptions ? { pq: { ...this.pqOptions } } : {})
+    };
+  }
+
+  public has(id: string): boolean {
+    return this.listOf.has(id);
+  }
+
+  public insert(id: string, vector: Float32Array): void {
+    if (this.listOf.has(id)) this.remove(id);
+    const stored = this.stored(vector);
+
+    if (!this.centroids) {
+      this.pending.set(id, stored);
+      this.listOf.set(id, -1);
+      if (this.pending.size >= this.trainingSize) this.train();
+      return;
+    }
+
+    this.assign(id, stored);
+  }
+
+  public remove(id: string): boolean {
+    const list = this.listOf.get(id);
+    if (list === undefined) return false;
+    this.listOf.delete(id);
+
+    if (list < 0) {
+      this.pending.delete(id);
+      return true;
+    }
+
+    const l = this.lists[list];
+    const row = l.ids.indexOf(id);
+    const last = l.ids.length - 1;
+    for (const column of [l.ids, l.vectors, l.codes, l.norms] as unknown[][]) {
+      if (column.length === 0) continue;
+      column[row] = column[last];
+      column.pop();
+    }
+    return true;
+  }
+
+  /**
+   * Cluster the collected vectors into `lists` centroids (and train PQ on the
+   * residuals), then bucket them. Runs automatically once `trainingSize`
+   * vectors exist; later inserts go straight to their nearest list.
+   */
+  public train(): void {
+    if (this.pending.size === 0) throw new Error('IVFIndex.train() needs at least one vector');
+
+    const vectors = Array.from(this.pending.values());
+    const dims = vectors[0].length;
+    const data = new Float32Array(vectors.length * dims);
+    vectors.forEach((v, i) => data.set(v.subarray(0, dims), i * dims));
+
+    const { centroids, k } = kmeans(data, dims, this.listCount, this.iterations);
+    this.dimensions = dims;
+    this.centroids = centroids;
+    this.lists = Array.from({ length: k }, () => ({ ids: [], vectors: [], codes: [], norms: [] }));
+
+    if (this.pqOptions) {
+      this.pq = new ProductQuantizer(dims, this.pqOptions);
+      this.pq.train(vectors.map(v => this.residual(v, this.nearestList(v))));
+    }
+
+    const pending = this.pending;
+    this.pending = new Map();
+    for (const [id, v] of pending) this.assign(id, v);
+  }
+
+  /**
+   * @param nprobe lists to scan for this query (defaults to `this.nprobe`)
+   */
+  public search(
+    query: Float32Array,
+    k: number,
+    filter?: IdFilter,
+    exact?: ExactVectors,
+    nprobe: number = this.nprobe
+  ): string[] {
+    const metric = this.metric;
+    const q = metric.normalizes ? normalized(query) : query;
+    const top = new TopK<string>(k);
+
+    if (!this.centroids) {
+      for (const [id, v] of this.pending) {
+        if (!filter || filter(id)) top.offer(id, this.floatDistance(q, v));
+      }
+    } else {
+      // same rule as assign(): lists ranked by L2 to their centroid
+      const probes = new TopK<number>(nprobe);
+      for (let c = 0; c < this.lists.length; c++) probes.offer(c, squaredL2(q, this.centroid(c)));
+
+      const prepared = this.pq ? this.pq.prepare(q) : null;
+      for (const { item: c } of probes.sorted()) {
+        const list = this.lists[c];
+        const centroid = this.centroid(c);
+        const qc = prepared ? dot(q, centroid) : 0;
+
+        for (let row = 0; row < list.ids.length; row++) {
+          const id = list.ids[row];
+          if (filter && !filter(id)) continue;
+
+          let distance: number;
+          if (!prepared) {
+            distance = this.floatDistance(q, list.vectors[row]);
+          } else if (metric.fromDot) {
+            // q . (centroid + residual), with the residual term read from the ADC tables
+            distance = metric.fromDot(qc + prepared.dot(list.codes[row]), prepared.norm, list.norms[row]);
+          } else {
+            distance = metric.distance(q, this.reconstruct(c, list.codes[row]));
+          }
+          top.offer(id, distance);
+        }
+      }
+    }
+
+    const results = top.sorted().map(r => r.item);
+    if (!exact) return results;
+
+    return results
+      .map(id => {
+        const v = exact(id);
+        return { id, distance: v ? metric.distance(query, v) : Infinity };
+      })
+      .sort((a, b) => a.distance - b.distance)
+      .map(r => r.id);
+  }
+
+  public toSnapshot(): IVFSnapshot {
+    return {
+      metric: this.metric.name,
+      options: this.settings,
+      trained: this.centroids && {
+        dimensions: this.dimensions,
+        centroids: this.centroids.slice(),
+        codebooks: this.pq ? this.pq.toSnapshot() : null,
+        lists: this.lists.map(list => ({ ids: list.ids.slice(), codes: list.codes.map(code => code.slice()) }))
+      }
+    };
+  }
+
+  /**
+   * Rebuild an index from `toSnapshot()` output. A trained index keeps its
+   * centroids, codebooks and list membership, so search results are
+   * identical; an untrained one re-inserts `ids` in order. `getVector`
+   * supplies the float vectors (float mode and untrained indexes only).
+   */
+  public static fromSnapshot(
+    snapshot: IVFSnapshot,
+    ids: Iterable<string>,
+    getVector: (id: string) => Float32Array,
+    metric?: Metric
+  ): IVFIndex {
+    const index = new IVFIndex({ ...snapshot.options, metric });
+    const trained = snapshot.trained;
+    if (!trained) {
+      for (const id of ids) index.insert(id, getVector(id));
+      return index;
+    }
+
+    index.dimensions = trained.dimensions;
+    index.centroids = trained.centroids;
+    if (trained.codebooks) {
+      index.pq = new ProductQuantizer(trained.dimensions, { ...index.pqOptions, subspaces: trained.codebooks.length });
+      index.pq.restore(trained.codebooks);
+    }
+    index.lists = trained.lists.map(() => ({ ids: [], vectors: [], codes: [], norms: [] }));
+    trained.lists.forEach((list, c) => {
+      list.ids.forEach((id, row) => {
+        if (index.pq) index.append(c, id, list.codes[row]);
+        else index.append(c, id, index.stored(getVector(id)));
+      });
+    });
+
+    // an id missing from the stored lists (none expected) is assigned afresh
+    for (const id of ids) {
+      if (!index.listOf.has(id)) index.insert(id, getVector(id));
+    }
+    return index;
+  }
+
+  private assign(id: string, vector: Float32Array): void {
+    const c = this.nearestList(vector);
+    this.append(c, id, this.pq ? this.pq.encode(this.residual(vector, c)) : vector);
+  }
+
+  /** Add to list `c` a float vector, or in PQ mode the residual code. */
+  private append(c: number, id: string, entry: Float32Array | Uint8Array): void {
+    const list = this.lists[c];
+    list.ids.push(id);
+
+    if (entry instanceof Uint8Array) {
+      const approx = this.reconstruct(c, entry);
+      list.codes.push(entry);
+      list.norms.push(Math.sqrt(dot(approx, approx)));
+    } else {
+      list.vectors.push(entry);
+    }
+    this.listOf.set(id, c);
+  }
+
+  private stored(vector: Float32Array): Float32Array {
+    return this.metric.normalizes ? normalized(vector) : vector;
+  }
+
+  private floatDistance(query: Float32Array, vector: Float32Array): number {
+    return this.metric.normalizes ? 1 - dot(query, vector) : this.metric.distance(query, vector);
+  }
+
+  private centroid(c: number): Float32Array {
+    return this.centroids!.subarray(c * this.dimensions, (c + 1) * this.dimensions);
+  }
+
+  private nearestList(vector: Float32Array): number {
+    return nearestCentroid(vector, 0, this.centroids!, this.lists.length, this.dimensions).index;
+  }
+
+  private residual(vector: Float32Array, c: number): Float32Array {
+    const centroid = this.centroid(c);
+    const out = new Float32Array(this.dimensions);
+    for (let d = 0; d < this.dimensions; d++) out[d] = vector[d] - centroid[d];
+    return out;
+  }
+
+  private reconstruct(c: number, code: Uint8Array): Float32Array {
+    const out = this.pq!.decode(code);
+    const centroid = this.centroid(c);
+    for (let d = 0; d < this.dimensions; d++) out[d] += centroid[d];
+    return out;
+  }
+}
@@ -0,0 +1,111 @@
+// src/core/Index.ts
+
+import { Metric, restoreMetric } from '../utils/distance';
+import { RandomSource } from '../utils/random';
+import { QuantizedVectorStore } from '../quantization/QuantizedVectorStore';
+import { HNSWGraph, HNSWOptions, HNSWSnapshot } from './HNSWGraph';
+import { FlatIndex } from './FlatIndex';
+import { IVFIndex, IVFOptions, IVFSnapshot } from './IVFIndex';
+import { WorkerPool } from './WorkerPool';
+
+export type IndexKind = 'hnsw' | 'flat' | 'ivf';
+
+/** Restricts which ids a search may return. */
+export type IdFilter = (id: string) => boolean;
+
+/** Full-precision vectors used to re-rank approximate results. */
+export type ExactVectors = (id: string) => Float32Array | undefined;
+
+export interface BulkInsertOptions {
+  /** Worker threads for indexes that can build in parallel (HNSW). */
+  pool?: WorkerPool;
+}
+
+/**
+ * A nearest-neighbor index over (typically medium-tier) vectors, keyed by chunk id.
+ */
+export interface Index {
+  readonly kind: IndexKind;
+  readonly size: number;
+  readonly metricName: string;
+  /** Add a vector; an existing id is replaced. */
+  insert(id: string, vector: Float32Array): void;
+  /** Add many vectors; indexes without a faster path need not implement it. */
+  insertBulk?(entries: [string, Float32Array][], options?: BulkInsertOptions): Promise<void>;
+  remove(id: string): boolean;
+  has(id: string): boolean;
+  /**
+   * Up to `k` ids, closest first. Only ids accepted by `filter` are returned;
+   * with `exact`, results are re-ranked by the exact metric.
+   */
+  search(query: Float32Array, k: number, filter?: IdFilter, exact?: ExactVectors): string[];
+  /** Score from quantized codes in `store` and drop the float vectors (where supported). */
+  useQuantizedVectors?(store: QuantizedVectorStore): void;
+}
+
+/**
+ * What a snapshot keeps of an index. HNSW stores its exact topology and IVF
+ * its trained clustering, since rebuilding either is expensive and changes
+ * results; a flat index stores its metric and is rebuilt from the chunk vectors.
+ */
+export type IndexSnapshot =
+  | { kind: 'hnsw'; graph: HNSWSnapshot }
+  | { kind: 'flat'; metric: string }
+  | ({ kind: 'ivf' } & IVFSnapshot);
+
+export interface IndexSettings {
+  metric?: Metric;
+  /** HNSW: max neighbors per node above layer 0. */
+  M?: number;
+  /** HNSW: beam width during construction. */
+  efConstruction?: number;
+  hnsw?: HNSWOptions;
+  ivf?: IVFOptions;
+}
+
+export function createVectorIndex(kind: IndexKind, settings: IndexSettings = {}): Index {
+  const metric = settings.metric;
+  switch (kind) {
+    case 'hnsw':
+      return new HNSWGraph(settings.M, settings.efConstruction, undefined, { ...settings.hnsw, metric });
+    case 'flat':
+      return new FlatIndex({ metric });
+    case 'ivf':
+      return new IVFIndex({ ...settings.ivf, metric });
+    default:
+      throw new Error(`Unknown index kind "${kind}" (expected hnsw, flat or ivf)`);
+  }
+}
+
+export function snapshotIndex(index: Index): IndexSnapshot {
+  if (index instanceof HNSWGraph) return { kind: 'hnsw', graph: index.toSnapshot() };
+  if (index instanceof IVFIndex) return { kind: 'ivf', ...index.toSnapshot() };
+  if (index instanceof FlatIndex) return { kind: 'flat', metric: index.metricName };
+  throw new Error(`Index kind "${index.kind}" cannot be snapshotted`);
+}
+
+/**
+ * Rebuild an index from `snapshotIndex()` output. `ids` gives insertion order
+ * for the vectors an index re-inserts. The stored metric must match
+ * `options.metric` when given (see `restoreMetric`).
+ */
+export function restoreIndex(
+  snapshot: IndexSnapshot,
+  ids: Iterable<string>,
+  getVector: (id: string) => Float32Array,
+  options: { metric?: Metric; random?: RandomSource } = {}
+): Index {
+  if (snapshot.kind === 'hnsw') return HNSWGraph.fromSnapshot(snapshot.graph, getVector, options);
+
+  const metric = restoreMetric(snapshot.metric, options.metric);
+  if (snapshot.kind === 'ivf') return IVFIndex.fromSnapshot(snapshot, ids, getVector, metric);
+
+  const index = new FlatIndex({ metric });
+  for (const id of ids) index.insert(id, getVector(id));
+  return index;
+}
+
+/** Metric name recorded in an index snapshot. */
+export function snapshotMetric(snapshot: IndexSnapshot): string {
+  return snapshot.kind === 'hnsw' ? snapshot.graph.metric : snapshot.metric;
+}
@@ -0,0 +1,368 @@
+// src/core/LateInteraction.ts
+
+import { ColbertData } from '../types';
+import { cosineSimilarity } from '../utils/cosineSimilarity';
+import { normalized } from '../utils/distance';
+import { TopK } from '../utils/heap';
+import { kmeans } from '../utils/kmeans';
+import { normalizeToken } from '../utils/tokenize';
+import { IdFilter } from './Index';
+
+/**
+ * Token-level (ColBERT-style) scoring, kept in step with the collection so
+ * implementations can hold corpus statistics or their own index. The DB calls
+ * `add` / `remove` on every mutation and `score` in stage 3.
+ */
+export interface LateInteraction {
+  readonly size: number;
+  /** Index a chunk's token data, replacing any earlier entry for `id`. */
+  add(id: string, doc: ColbertData): void;
+  remove(id: string): boolean;
+  clear(): void;
+  score(query: ColbertData, doc: ColbertData): number;
+  /** Candidate generation from token vectors alone: the `k` best ids, best first. */
+  search?(query: ColbertData, k: number, filter?: IdFilter): string[];
+}
+
+export interface ColbertIndexOptions {
+  /** Weight query tokens by inverse document frequency (default true). */
+  idf?: boolean;
+  /** k-means centroids over token vectors (default 128). */
+  centroids?: number;
+  /** Centroids probed per query token (default 4). */
+  nprobe?: number;
+  /** Chunks to collect before clustering; until then `search` is exhaustive (default 1000). */
+  trainingSize?: number;
+  /** Token vectors sampled per centroid for k-means (default 64). */
+  samplesPerCentroid?: number;
+  /** k-means iterations (default 10). */
+  iterations?: number;
+  /** Centroid-scored candidates re-scored exactly, as a multiple of `k` (default 4). */
+  rerankFactor?: number;
+}
+
+/** A trained `ColbertIndex` as saved in snapshots: its centroids and each chunk's token centroids. */
+export interface ColbertIndexSnapshot {
+  dimensions: number;
+  centroids: Float32Array;
+  ids: string[];
+  codes: Uint16Array[];
+}
+
+/**
+ * MaxSim late interaction with IDF-weighted query tokens and a PLAID-style
+ * centroid index over every token vector.
+ *
+ * `score` takes, for each query token, the best cosine against the doc tokens
+ * (times the doc token's `importance`, floored at 0) and averages those maxima
+ * weighted by the query token's `importance` × IDF, so rare terms dominate and
+ * stopwords barely count.
+ *
+ * Once trained, each doc token is stored as its nearest centroid. `search`
+ * probes the `nprobe` closest centroids of every query token, scores the docs
+ * found there with centroid vectors in place of token vectors, and re-scores
+ * the best `k × rerankFactor` of them exactly.
+ */
+export class ColbertIndex implements LateInteraction {
+  public nprobe: number;
+  private useIdf: boolean;
+  private centroidCount: number;
+  private trainingSize: number;
+  private samplesPerCentroid: number;
+  private iterations: number;
+  private rerankFactor: number;
+
+  private docs = new Map<string, ColbertData>();
+  private documentFrequency = new Map<string, number>();
+  private weightCache = new WeakMap<ColbertData, Float32Array>();
+
+  private dimensions = 0;
+  private centroids: Float32Array | null = null; // unit rows, centroids x dimensions
+  private k = 0;
+  private codes = new Map<string, Uint16Array>(); // id -> centroid of each token
+  private postings: Set<string>[] = [];           // centroid -> ids with a token there
+  private restored = new Map<string, Uint16Array>(); // snapshot codes of ids not yet re-added
+
+  constructor(options: ColbertIndexOptions = {}) {
+    this.useIdf = options.idf ?? true;
+    this.centroidCount = Math.min(options.centroids ?? 128, 65536);
+    this.nprobe = options.nprobe ?? 4;
+    this.trainingSize = options.trainingSize ?? 1000;
+    this.samplesPerCentroid = options.samplesPerCentroid ?? 64;
+    this.iterations = options.iterations ?? 10;
+    this.rerankFactor = options.rerankFactor ?? 4;
+  }
+
+  public get size(): number {
+    return this.docs.size;
+  }
+
+  public get trained(): boolean {
+    return this.centroids !== null;
+  }
+
+  public add(id: string, doc: ColbertData): void {
+    if (this.docs.has(id)) this.remove(id);
+    this.docs.set(id, doc);
+    for (const term of new Set(doc.tokens.map(tokenKey))) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+    this.weightCache = new WeakMap();
+
+    if (this.centroids) this.assign(id, doc);
+    else if (this.docs.size >= this.trainingSize) this.train();
+  }
+
+  public remove(id: string): boolean {
+    const doc = this.docs.get(id);
+    if (!doc) return false;
+    this.docs.delete(id);
+
+    for (const term of new Set(doc.tokens.map(tokenKey))) {
+      const df = (this.documentFrequency.get(term) ?? 1) - 1;
+      if (df > 0) this.documentFrequency.set(term, df);
+      else this.documentFrequency.delete(term);
+    }
+    this.weightCache = new WeakMap();
+
+    const codes = this.codes.get(id);
+    if (codes) {
+      for (const c of codes) this.postings[c].delete(id);
+      this.codes.delete(id);
+    }
+    return true;
+  }
+
+  public clear(): void {
+    this.docs.clear();
+    this.documentFrequency.clear();
+    this.weightCache = new WeakMap();
+    this.centroids = null;
+    this.k = 0;
+    this.codes.clear();
+    this.postings = [];
+    this.restored.clear();
+  }
+
+  /**
+   * Inverse document frequency of a token over the indexed chunks
+   * (the BM25 form, which stays positive for very common terms).
+   */
+  public idf(token: string): number {
+    const n = this.docs.size;
+    const df = this.documentFrequency.get(tokenKey(token)) ?? 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+
+  /**
+   * Effective weight of each query token: its own `importance` times its IDF
+   * (or the importance alone with `idf: false`). These are the weights `score`
+   * averages with, and what `searchBatch` hands to `colbertKernel`.
+   */
+  public queryWeights(query: ColbertData): Float32Array {
+    let weights = this.weightCache.get(query);
+    if (weights) return weights;
+
+    weights = new Float32Array(query.embeddings.length);
+    for (let i = 0; i < weights.length; i++) {
+      const importance = query.importance[i] ?? 1;
+      weights[i] = this.useIdf ? importance * this.idf(query.tokens[i] ?? '') : importance;
+    }
+    this.weightCache.set(query, weights);
+    return weights;
+  }
+
+  public score(query: ColbertData, doc: ColbertData): number {
+    if (!doc.tokens.length || !doc.embeddings.length || !query.embeddings.length) return 0;
+
+    const weights = this.queryWeights(query);
+    let total = 0;
+    let weightSum = 0;
+
+    for (let qi = 0; qi < query.embeddings.length; qi++) {
+      const qEmb = query.embeddings[qi];
+      let maxSim = 0;
+
+      for (let di = 0; di < doc.embeddings.length; di++) {
+        const sim = cosineSimilarity(qEmb, doc.embeddings[di]) * (doc.importance[di] ?? 1.0);
+        if (sim > maxSim) maxSim = sim;
+      }
+
+      total += maxSim * weights[qi];
+      weightSum += weights[qi];
+    }
+
+    return weightSum > 0 ? total / weightSum : 0;
+  }
+
+  /**
+   * The `k` best-scoring ids for `query`. Exhaustive until the index is
+   * trained; afterwards only docs sharing a probed centroid are considered.
+   */
+  public search(query: ColbertData, k: number, filter?: IdFilter): string[] {
+    if (k <= 0 || !query.embeddings.length) return [];
+
+    let candidates: Iterable<string> = this.docs.keys();
+    if (this.centroids) {
+      candidates = this.shortlist(query, Math.max(k, k * this.rerankFactor), filter);
+      filter = undefined;
+    }
+
+    const top = new TopK<string>(k);
+    for (const id of candidates) {
+      if (filter && !filter(id)) continue;
+      const score = this.score(query, this.docs.get(id)!);
+      if (score > 0) top.offer(id, -score);
+    }
+    return top.sorted().map(entry => entry.item);
+  }
+
+  /**
+   * Cluster (a sample of) the token vectors into `centroids` centroids and
+   * assign every token. Runs automatically once `trainingSize` chunks exist.
+   */
+  public train(): void {
+    const vectors: Float32Array[] = [];
+    for (const doc of this.docs.values()) vectors.push(...doc.embeddings);
+    if (vectors.length === 0) return;
+
+    const dims = vectors[0].length;
+    const sampleSize = Math.min(vectors.length, this.centroidCount * this.samplesPerCentroid);
+    const data = new Float32Array(sampleSize * dims);
+    for (let i = 0; i < sampleSize; i++) {
+      const v = vectors[Math.floor((i * vectors.length) / sampleSize)];
+      data.set(normalized(v).subarray(0, dims), i * dims);
+    }
+
+    const { centroids, k } = kmeans(data, dims, this.centroidCount, this.iterations);
+    for (let c = 0; c < k; c++) {
+      centroids.set(normalized(centroids.subarray(c * dims, (c + 1) * dims)), c * dims);
+    }
+
+    this.dimensions = dims;
+    this.centroids = centroids;
+    this.k = k;
+    this.postings = Array.from({ length: k }, () => new Set<string>());
+    this.codes.clear();
+    for (const [id, doc] of this.docs) this.assign(id, doc);
+  }
+
+  /** The trained centroids and token assignments, or null before training. */
+  public toSnapshot(): ColbertIndexSnapshot | null {
+    if (!this.centroids) return null;
+    const ids = Array.from(this.codes.keys());
+    return {
+      dimensions: this.dimensions,
+      centroids: this.centroids.slice(),
+      ids,
+      codes: ids.map(id => this.codes.get(id)!.slice())
+    };
+  }
+
+  /**
+   * Adopt `toSnapshot()` output instead of training. Call it before the
+   * chunks are added again; each `add` then takes its stored assignments.
+   */
+  public restore(snapshot: ColbertIndexSnapshot): void {
+    this.clear();
+    this.dimensions = snapshot.dimensions;
+    this.centroids = snapshot.centroids;
+    this.k = snapshot.centroids.length / snapshot.dimensions;
+    this.postings = Array.from({ length: this.k }, () => new Set<string>());
+    snapshot.ids.forEach((id, i) => this.restored.set(id, snapshot.codes[i]));
+  }
+
+  private assign(id: string, doc: ColbertData): void {
+    let codes = this.restored.get(id);
+    this.restored.delete(id);
+    if (codes?.length !== doc.embeddings.length) {
+      codes = Uint16Array.from(doc.embeddings, v => this.nearest(v, 1)[0]);
+    }
+    for (const c of codes) this.postings[c].add(id);
+    this.codes.set(id, codes);
+  }
+
+  /**
+   * Docs reachable from the probed centroids, ranked by MaxSim with each doc
+   * token replaced by its centroid; the best `size` are returned.
+   */
+  private shortlist(query: ColbertData, size: number, filter?: IdFilter): string[] {
+    const k = this.k;
+    const weights = this.queryWeights(query);
+    const table = new Float32Array(query.embeddings.length * k);
+    const reached = new Set<string>();
+
+    query.embeddings.forEach((q, qi) => {
+      this.centroidSimilarities(q, table.subarray(qi * k, (qi + 1) * k));
+      for (const c of this.nearest(q, this.nprobe)) {
+        for (const id of this.postings[c]) reached.add(id);
+      }
+    });
+
+    let weightSum = 0;
+    for (const w of weights) weightSum += w;
+
+    const top = new TopK<string>(size);
+    for (const id of reached) {
+      if (filter && !filter(id)) continue;
+      const codes = this.codes.get(id)!;
+      const importance = this.docs.get(id)!.importance;
+
+      let total = 0;
+      for (let qi = 0; qi < weights.length; qi++) {
+        const base = qi * k;
+        let maxSim = 0;
+        for (let t = 0; t < codes.length; t++) {
+          const sim = table[base + codes[t]] * (importance[t] ?? 1);
+          if (sim > maxSim) maxSim = sim;
+        }
+        total += maxSim * weights[qi];
+      }
+      top.offer(id, weightSum > 0 ? -total / weightSum : 0);
+    }
+    return top.sorted().map(entry => entry.item);
+  }
+
+  /** Cosine of `vector` against every centroid, written to `out`. */
+  private centroidSimilarities(vector: Float32Array, out: Float32Array): void {
+    const centroids = this.centroids!;
+    const dims = this.dimensions;
+    const len = Math.min(dims, vector.length);
+    let norm = 0;
+    for (let d = 0; d < len; d++) norm += vector[d] * vector[d];
+    const inv = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+
+    for (let c = 0; c < this.k; c++) {
+      let dot = 0;
+      for (let d = 0; d < len; d++) dot += vector[d] * centroids[c * dims + d];
+      out[c] = dot * inv;
+    }
+  }
+
+  /** The `count` centroids most similar to `vector`, closest first. */
+  private nearest(vector: Float32Array, count: number): number[] {
+    const sims = new Float32Array(this.k);
+    this.centroidSimilarities(vector, sims);
+
+    const top = new TopK<number>(Math.max(1, count));
+    for (let c = 0; c < this.k; c++) top.offer(c, -sims[c]);
+    return top.sorted().map(entry => entry.item);
+  }
+}
+
+/** Either a custom implementation or settings for the default `ColbertIndex`. */
+export type LateInteractionOption = LateInteraction | ColbertIndexOptions;
+
+/** True for a custom implementation, false for `ColbertIndex` settings. */
+export function isLateInteraction(option: LateInteractionOption): option is LateInteraction {
+  return 'score' in option && typeof option.score === 'function';
+}
+
+export function resolveLateInteraction(option: LateInteractionOption = {}): LateInteraction {
+  return isLateInteraction(option) ? option : new ColbertIndex(option);
+}
+
+/** Document-frequency key of a surface token: lowercased, punctuation stripped. */
+function tokenKey(token: string): string {
+  return normalizeToken(token) || token.toLowerCase();
+}
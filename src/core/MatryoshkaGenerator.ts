@@ -1,8 +1,18 @@
 // src/core/MatryoshkaGenerator.ts
 
-import { MatryoshkaEmbeddings, ColbertData } from '../types';
+import { ColbertData, EmbeddingProvider, EmbeddingResult } from '../types';
+import { deriveMatryoshka } from '../utils/matryoshka';
+import { fnv1a } from '../utils/hash';
+
+/**
+ * Original demo generator. Its RNG is seeded from `text.length`, so strings of
+ * equal length collide — prefer `NgramEmbeddingProvider` for anything ranking-sensitive.
+ */
+export class MatryoshkaGenerator implements EmbeddingProvider {
+  public readonly dimensions = 768;
+  /** Components are centred on 0.5, not 0. */
+  public readonly binaryThreshold = 0.5;
 
-export class MatryoshkaGenerator {
   /**
    * Simple seeded RNG so the same text produces the same embedding.
    */
@@ -35,28 +45,12 @@ export class MatryoshkaGenerator {
   /**
    * Generate all multi-scale embeddings + ColBERT token data.
    */
-  public generateAll(text: string): { matryoshka: MatryoshkaEmbeddings; colbert: ColbertData } {
+  public generateAll(text: string): EmbeddingResult {
     // 1. Full 768d embedding
-    const full = this.generateRoPEEmbedding(text, 768);
+    const full = this.generateRoPEEmbedding(text, this.dimensions);
 
-    // 2. Progressive truncation (Matryoshka)
-    const medium = full.slice(0, 256);
-    const small = full.slice(0, 128);
-
-    // 3. Binary / nano encodings
-    const tiny = new Uint8Array(64);
-    for (let i = 0; i < 64; i++) {
-      tiny[i] = full[i] > 0.5 ? 1 : 0;
-    }
-
-    const nano = new Uint32Array(1);
-    for (let i = 0; i < 32; i++) {
-      if (full[i] > 0.5) {
-        nano[0] |= 1 << i;
-      }
-    }
-
-    const matryoshka: MatryoshkaEmbeddings = { full, medium, small, tiny, nano };
+    // 2-3. Progressive truncation + binary / nano encodings
+    const matryoshka = deriveMatryoshka(full, this.binaryThreshold);
 
     // 4. ColBERT-ish token embeddings
     const tokens = text.split(/\s+/).filter(Boolean);
@@ -64,11 +58,12 @@ export class MatryoshkaGenerator {
     const importance = new Float32Array(tokens.length);
 
     for (let i = 0; i < tokens.length; i++) {
+      // seeded from the token's text, so only identical tokens share a vector
       const tokenVec = new Float32Array(32);
-      const base = tokens[i].length;
+      const rand = this.seededRandom(fnv1a(tokens[i].toLowerCase()));
 
       for (let j = 0; j < 32; j++) {
-        tokenVec[j] = Math.sin((base + j) * 0.1);
+        tokenVec[j] = rand() * 2 - 1;
       }
 
       embeddings.push(tokenVec);
@@ -79,4 +74,12 @@ export class MatryoshkaGenerator {
 
     return { matryoshka, colbert };
   }
+
+  public async embed(text: string): Promise<EmbeddingResult> {
+    return this.generateAll(text);
+  }
+
+  public async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    return texts.map(text => this.generateAll(text));
+  }
 }
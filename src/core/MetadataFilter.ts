@@ -0,0 +1,112 @@
+// src/core/MetadataFilter.ts
+
+import { FieldCondition, FilterValue, MetadataFilter, UltraMetadata } from '../types';
+
+export type MetadataPredicate = (metadata: UltraMetadata) => boolean;
+
+const FIELD_OPERATORS = new Set(['$eq', '$ne', '$in', '$gt', '$gte', '$lt', '$lte', '$exists']);
+
+/**
+ * Compile a filter into a predicate once, validating operators up front so a
+ * malformed filter fails before the search starts rather than matching nothing.
+ */
+export function compileFilter(filter: MetadataFilter): MetadataPredicate {
+  // every key, field or logical operator, must hold
+  const checks = Object.entries(filter).map(([key, value]) => compileEntry(key, value));
+  return metadata => checks.every(c => c(metadata));
+}
+
+function compileEntry(key: string, value: unknown): MetadataPredicate {
+  switch (key) {
+    case '$and': {
+      const parts = asFilterList(value, '$and').map(compileFilter);
+      return metadata => parts.every(p => p(metadata));
+    }
+    case '$or': {
+      const parts = asFilterList(value, '$or').map(compileFilter);
+      return metadata => parts.some(p => p(metadata));
+    }
+    case '$not': {
+      const inner = compileFilter(asFilter(value, '$not'));
+      return metadata => !inner(metadata);
+    }
+  }
+  if (key.startsWith('$')) {
+    throw new Error(`Unknown logical operator "${key}" in metadata filter`);
+  }
+  return compileField(key, value);
+}
+
+/**
+ * Fields referenced anywhere in a filter (used for validation and index planning).
+ */
+export function filterFields(filter: MetadataFilter): string[] {
+  return Object.entries(filter).flatMap(([key, value]) => {
+    if (key === '$and' || key === '$or') return asFilterList(value, key).flatMap(filterFields);
+    if (key === '$not') return filterFields(asFilter(value, key));
+    return [key];
+  });
+}
+
+export function asFilterList(value: unknown, op: string): MetadataFilter[] {
+  if (!Array.isArray(value) || !value.every(isFilter)) {
+    throw new Error(`${op} expects an array of filters`);
+  }
+  return value;
+}
+
+function asFilter(value: unknown, op: string): MetadataFilter {
+  if (!isFilter(value)) {
+    throw new Error(`${op} expects a filter`);
+  }
+  return value;
+}
+
+/** A filter or a field condition: any plain object. */
+export function isFilter(value: unknown): value is MetadataFilter {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isCondition(value: unknown): value is FieldCondition {
+  return isFilter(value);
+}
+
+export function isFilterValue(value: unknown): value is FilterValue {
+  return value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function compileField(field: string, condition: unknown): MetadataPredicate {
+  if (!isCondition(condition)) {
+    if (condition !== undefined && !isFilterValue(condition)) {
+      throw new Error(`Field "${field}" in metadata filter needs a value or a condition object`);
+    }
+    return metadata => metadata[field] === condition;
+  }
+
+  for (const op of Object.keys(condition)) {
+    if (!FIELD_OPERATORS.has(op)) {
+      throw new Error(`Unknown operator "${op}" on field "${field}" in metadata filter`);
+    }
+  }
+  if (condition.$in !== undefined && !Array.isArray(condition.$in)) {
+    throw new Error(`$in on field "${field}" expects an array`);
+  }
+
+  const c = condition;
+  const inSet = c.$in ? new Set(c.$in) : null;
+
+  return metadata => {
+    const value = metadata[field];
+    const exists = value !== undefined;
+
+    if (c.$exists !== undefined && c.$exists !== exists) return false;
+    if ('$eq' in c && value !== c.$eq) return false;
+    if ('$ne' in c && value === c.$ne) return false;
+    if (inSet && !inSet.has(value)) return false;
+    if (c.$gt !== undefined && !(typeof value === 'number' && value > c.$gt)) return false;
+    if (c.$gte !== undefined && !(typeof value === 'number' && value >= c.$gte)) return false;
+    if (c.$lt !== undefined && !(typeof value === 'number' && value < c.$lt)) return false;
+    if (c.$lte !== undefined && !(typeof value === 'number' && value <= c.$lte)) return false;
+    return true;
+  };
+}
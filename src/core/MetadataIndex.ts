@@ -0,0 +1,237 @@
+// src/core/MetadataIndex.ts
+
+import { FieldCondition, FilterValue, MetadataFilter } from '../types';
+import { asFilterList, isCondition, isFilterValue } from './MetadataFilter';
+
+export type MetadataIndexKind = 'hash' | 'sorted';
+
+export interface MetadataIndexSpec {
+  field: string;
+  kind: MetadataIndexKind;
+}
+
+/**
+ * Secondary index over one metadata field. `lookup` returns the ids that can
+ * satisfy a condition, or null when this index cannot answer it.
+ */
+export interface MetadataIndex {
+  readonly field: string;
+  readonly kind: MetadataIndexKind;
+  add(id: string, value: unknown): void;
+  remove(id: string, value: unknown): void;
+  lookup(condition: FieldCondition | FilterValue): Set<string> | null;
+}
+
+/**
+ * Equality index for categorical fields such as `type`.
+ * Answers bare values, `$eq` and `$in`.
+ */
+export class HashIndex implements MetadataIndex {
+  public readonly kind = 'hash';
+  private buckets = new Map<unknown, Set<string>>();
+
+  constructor(public readonly field: string) {}
+
+  public add(id: string, value: unknown): void {
+    if (value === undefined) return;
+    let bucket = this.buckets.get(value);
+    if (!bucket) {
+      bucket = new Set();
+      this.buckets.set(value, bucket);
+    }
+    bucket.add(id);
+  }
+
+  public remove(id: string, value: unknown): void {
+    const bucket = this.buckets.get(value);
+    if (!bucket) return;
+    bucket.delete(id);
+    if (bucket.size === 0) this.buckets.delete(value);
+  }
+
+  public lookup(condition: FieldCondition | FilterValue): Set<string> | null {
+    if (!isCondition(condition)) return new Set(this.buckets.get(condition));
+
+    const keys = Object.keys(condition);
+    if (keys.length !== 1) return null;
+
+    if ('$eq' in condition) return new Set(this.buckets.get(condition.$eq));
+    if (condition.$in) {
+      const ids = new Set<string>();
+      for (const value of condition.$in) {
+        for (const id of this.buckets.get(value) ?? []) ids.add(id);
+      }
+      return ids;
+    }
+    return null;
+  }
+}
+
+/**
+ * Ordered index for numeric fields such as `importance` or `created`.
+ * Answers `$eq` and any combination of `$gt`/`$gte`/`$lt`/`$lte`.
+ *
+ * Adds and removes are buffered and merged into the sorted arrays in one pass
+ * on the next lookup, so bulk loads and deletes cost O(N + k log k) rather
+ * than a splice per entry. Each id is expected to be indexed at most once.
+ */
+export class SortedIndex implements MetadataIndex {
+  public readonly kind = 'sorted';
+  private values: number[] = [];
+  private ids: string[] = [];
+  /** Entries added since the last merge. */
+  private pending = new Map<string, number>();
+  /** Ids to drop from the sorted arrays on the next merge. */
+  private removed = new Set<string>();
+
+  constructor(public readonly field: string) {}
+
+  public add(id: string, value: unknown): void {
+    if (typeof value !== 'number' || Number.isNaN(value)) return;
+    this.pending.set(id, value);
+  }
+
+  public remove(id: string, value: unknown): void {
+    if (typeof value !== 'number') return;
+    if (this.pending.get(id) === value) this.pending.delete(id);
+    else this.removed.add(id);
+  }
+
+  public lookup(condition: FieldCondition | FilterValue): Set<string> | null {
+    if (!isCondition(condition)) {
+      return typeof condition === 'number' ? this.range(condition, true, condition, true) : null;
+    }
+
+    let low = -Infinity;
+    let lowInclusive = true;
+    let high = Infinity;
+    let highInclusive = true;
+
+    for (const [op, value] of Object.entries(condition)) {
+      if (typeof value !== 'number') return null;
+      switch (op) {
+        case '$eq': low = high = value; lowInclusive = highInclusive = true; break;
+        case '$gt': low = value; lowInclusive = false; break;
+        case '$gte': low = value; lowInclusive = true; break;
+        case '$lt': high = value; highInclusive = false; break;
+        case '$lte': high = value; highInclusive = true; break;
+        default: return null;
+      }
+    }
+
+    return this.range(low, lowInclusive, high, highInclusive);
+  }
+
+  private range(low: number, lowInclusive: boolean, high: number, highInclusive: boolean): Set<string> {
+    this.merge();
+    const start = this.lowerBound(low, !lowInclusive);
+    const end = this.lowerBound(high, highInclusive);
+    return new Set(this.ids.slice(start, end));
+  }
+
+  /** Apply the buffered removes, then merge the sorted buffered adds in. */
+  private merge(): void {
+    if (!this.pending.size && !this.removed.size) return;
+
+    let values = this.values;
+    let ids = this.ids;
+    if (this.removed.size) {
+      values = [];
+      ids = [];
+      for (let i = 0; i < this.ids.length; i++) {
+        if (this.removed.has(this.ids[i])) continue;
+        values.push(this.values[i]);
+        ids.push(this.ids[i]);
+      }
+      this.removed.clear();
+    }
+
+    const added = [...this.pending].sort((a, b) => a[1] - b[1]);
+    this.pending.clear();
+    if (!added.length) {
+      this.values = values;
+      this.ids = ids;
+      return;
+    }
+
+    const mergedValues: number[] = new Array(values.length + added.length);
+    const mergedIds: string[] = new Array(values.length + added.length);
+    let i = 0;
+    let j = 0;
+    for (let k = 0; k < mergedValues.length; k++) {
+      if (j >= added.length || (i < values.length && values[i] <= added[j][1])) {
+        mergedValues[k] = values[i];
+        mergedIds[k] = ids[i++];
+      } else {
+        mergedValues[k] = added[j][1];
+        mergedIds[k] = added[j++][0];
+      }
+    }
+    this.values = mergedValues;
+    this.ids = mergedIds;
+  }
+
+  /**
+   * First position whose value is >= `value` (or > `value` when `strict`).
+   */
+  private lowerBound(value: number, strict: boolean): number {
+    let lo = 0;
+    let hi = this.values.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      const v = this.values[mid];
+      if (v < value || (strict && v === value)) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
+
+export function createMetadataIndex(spec: MetadataIndexSpec): MetadataIndex {
+  return spec.kind === 'hash' ? new HashIndex(spec.field) : new SortedIndex(spec.field);
+}
+
+/**
+ * Ids that may match `filter` according to the available indexes, or null when
+ * the indexes cannot bound it (e.g. `$not`, or no indexed field involved).
+ * The result is a superset of the true matches; callers still apply the predicate.
+ */
+export function candidateIdsFromIndexes(
+  filter: MetadataFilter,
+  indexes: Map<string, MetadataIndex>
+): Set<string> | null {
+  // the keys of one object are ANDed, logical operators included
+  return intersectAll(
+    Object.entries(filter).map(([key, value]) => {
+      if (key === '$and') {
+        return intersectAll(asFilterList(value, key).map(part => candidateIdsFromIndexes(part, indexes)));
+      }
+      if (key === '$or') return unionAll(asFilterList(value, key), indexes);
+      if (key === '$not') return null;
+      if (!isCondition(value) && !isFilterValue(value)) return null;
+      return indexes.get(key)?.lookup(value) ?? null;
+    })
+  );
+}
+
+function unionAll(parts: MetadataFilter[], indexes: Map<string, MetadataIndex>): Set<string> | null {
+  const union = new Set<string>();
+  for (const part of parts) {
+    const ids = candidateIdsFromIndexes(part, indexes);
+    if (!ids) return null;
+    for (const id of ids) union.add(id);
+  }
+  return union;
+}
+
+function intersectAll(sets: (Set<string> | null)[]): Set<string> | null {
+  const known = sets.filter((s): s is Set<string> => s !== null).sort((a, b) => a.size - b.size);
+  if (!known.length) return null;
+
+  const [smallest, ...rest] = known;
+  const result = new Set<string>();
+  for (const id of smallest) {
+    if (rest.every(s => s.has(id))) result.add(id);
+  }
+  return result;
+}
@@ -0,0 +1,168 @@
+// src/core/MetadataSchema.ts
+
+import { MetadataFilter, UltraMetadata } from '../types';
+import { asFilterList, filterFields, isCondition, isFilter } from './MetadataFilter';
+
+export type MetadataFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'string[]';
+
+export interface MetadataFieldSchema {
+  type: MetadataFieldType;
+  required?: boolean;
+  /** Allowed values. */
+  enum?: (string | number | boolean)[];
+  /** Inclusive numeric bounds. */
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Declared metadata fields of a collection. The schema is closed: metadata
+ * and filters naming an undeclared field are rejected. The fields of
+ * `UltraMetadata` itself (`type`, `importance`, `created`, `lastAccessed`,
+ * `accessCount`, `expiresAt`, `sources` and the document fields `docId`,
+ * `chunkIndex`, `startOffset`, `endOffset`, `heading`) are always declared
+ * and may be tightened here.
+ */
+export interface MetadataSchemaSpec {
+  fields: Record<string, MetadataFieldSchema>;
+}
+
+export type MetadataRule = 'required' | 'type' | 'enum' | 'range' | 'unknown';
+
+/** A metadata value or filter broke the schema; `field` and `rule` say where and how. */
+export class MetadataValidationError extends Error {
+  constructor(
+    public readonly field: string,
+    public readonly rule: MetadataRule,
+    message: string,
+    public readonly chunkId?: string
+  ) {
+    super(message);
+    this.name = 'MetadataValidationError';
+  }
+}
+
+const BUILTIN_FIELDS: Record<string, MetadataFieldSchema> = {
+  type: { type: 'string' },
+  importance: { type: 'number' },
+  created: { type: 'number' },
+  lastAccessed: { type: 'number' },
+  accessCount: { type: 'integer' },
+  expiresAt: { type: 'number' },
+  sources: { type: 'string[]' },
+  docId: { type: 'string' },
+  chunkIndex: { type: 'integer' },
+  startOffset: { type: 'integer' },
+  endOffset: { type: 'integer' },
+  heading: { type: 'string' }
+};
+
+export class MetadataSchema {
+  public readonly fields: Readonly<Record<string, MetadataFieldSchema>>;
+
+  constructor(public readonly spec: MetadataSchemaSpec) {
+    for (const [field, schema] of Object.entries(spec.fields)) {
+      if (!['string', 'number', 'integer', 'boolean', 'string[]'].includes(schema.type)) {
+        throw new Error(`Unknown type "${schema.type}" for metadata field "${field}"`);
+      }
+    }
+    this.fields = { ...BUILTIN_FIELDS, ...spec.fields };
+  }
+
+  public has(field: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.fields, field);
+  }
+
+  /** Throw a `MetadataValidationError` for the first field that breaks the schema. */
+  public validate(metadata: UltraMetadata, chunkId?: string): void {
+    const fail = (field: string, rule: MetadataRule, problem: string): never => {
+      const owner = chunkId === undefined ? '' : ` of chunk "${chunkId}"`;
+      throw new MetadataValidationError(field, rule, `Metadata field "${field}"${owner} ${problem}`, chunkId);
+    };
+
+    for (const field of Object.keys(metadata)) {
+      if (!this.has(field)) fail(field, 'unknown', 'is not declared in the schema');
+    }
+
+    for (const [field, schema] of Object.entries(this.fields)) {
+      const value = metadata[field];
+      if (value === undefined || value === null) {
+        if (schema.required) fail(field, 'required', 'is required');
+        continue;
+      }
+
+      if (!matchesType(value, schema.type)) {
+        fail(field, 'type', `must be ${article(schema.type)}, got ${JSON.stringify(value)}`);
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        const allowed = schema.enum.map(v => JSON.stringify(v)).join(', ');
+        fail(field, 'enum', `must be one of ${allowed}, got ${JSON.stringify(value)}`);
+      }
+      if (schema.min !== undefined && value < schema.min) fail(field, 'range', `must be >= ${schema.min}, got ${value}`);
+      if (schema.max !== undefined && value > schema.max) fail(field, 'range', `must be <= ${schema.max}, got ${value}`);
+    }
+  }
+
+  /**
+   * Reject filters on undeclared fields, and range operators on fields that
+   * are not numeric, so a typo fails instead of silently matching nothing.
+   */
+  public validateFilter(filter: MetadataFilter): void {
+    for (const field of filterFields(filter)) this.assertField(field, 'Metadata filter');
+    this.checkConditions(filter);
+  }
+
+  /** Throw unless `field` is declared; `context` starts the error message. */
+  public assertField(field: string, context: string): void {
+    if (this.has(field)) return;
+    const known = Object.keys(this.fields).join(', ');
+    throw new MetadataValidationError(
+      field,
+      'unknown',
+      `${context} references unknown field "${field}" (declared: ${known})`
+    );
+  }
+
+  private checkConditions(filter: MetadataFilter): void {
+    for (const [field, condition] of Object.entries(filter)) {
+      if (field === '$and' || field === '$or') {
+        asFilterList(condition, field).forEach(inner => this.checkConditions(inner));
+        continue;
+      }
+      if (field === '$not') {
+        if (isFilter(condition)) this.checkConditions(condition);
+        continue;
+      }
+      if (!isCondition(condition)) continue;
+      const type = this.fields[field].type;
+      const ranged = ['$gt', '$gte', '$lt', '$lte'].some(op => op in condition);
+      if (ranged && type !== 'number' && type !== 'integer') {
+        throw new MetadataValidationError(
+          field,
+          'type',
+          `Metadata filter uses a range operator on "${field}", which is declared as ${type}`
+        );
+      }
+    }
+  }
+}
+
+function matchesType(value: unknown, type: MetadataFieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string[]':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+}
+
+function article(type: MetadataFieldType): string {
+  if (type === 'string[]') return 'an array of strings';
+  return type === 'integer' ? 'an integer' : `a ${type}`;
+}
@@ -0,0 +1,136 @@
+// src/core/NgramEmbeddingProvider.ts
+
+import { ColbertData, EmbeddingProvider, EmbeddingResult } from '../types';
+import { deriveMatryoshka } from '../utils/matryoshka';
+import { fnv1a } from '../utils/hash';
+
+const FEATURE_PROBES = 4;
+const CONTEXT_WEIGHT = 0.25; // neighbouring words in a token vector
+
+export interface NgramEmbeddingOptions {
+  dimensions?: number;        // full tier size (must be >= 256 for the medium tier)
+  tokenDimensions?: number;   // ColBERT token vector size
+  charNgram?: number;         // character n-gram length used inside each word
+}
+
+/**
+ * Deterministic, content-dependent embeddings built with the hashing trick.
+ *
+ * Word unigrams, word bigrams and character n-grams are hashed into signed
+ * buckets and L2-normalized, so texts sharing vocabulary land close together.
+ * No model server needed — good enough to exercise ranking in tests.
+ */
+export class NgramEmbeddingProvider implements EmbeddingProvider {
+  public readonly dimensions: number;
+  private tokenDimensions: number;
+  private charNgram: number;
+
+  constructor(options: NgramEmbeddingOptions = {}) {
+    this.dimensions = options.dimensions ?? 768;
+    this.tokenDimensions = options.tokenDimensions ?? 32;
+    this.charNgram = options.charNgram ?? 3;
+
+    if (this.dimensions < 256) {
+      throw new Error(`NgramEmbeddingProvider needs at least 256 dimensions, got ${this.dimensions}`);
+    }
+  }
+
+  public async embed(text: string): Promise<EmbeddingResult> {
+    return this.embedSync(text);
+  }
+
+  public async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    return texts.map(text => this.embedSync(text));
+  }
+
+  public async embedTokens(text: string): Promise<ColbertData> {
+    return this.tokenData(text);
+  }
+
+  private embedSync(text: string): EmbeddingResult {
+    const words = this.words(text);
+
+    const full = new Float32Array(this.dimensions);
+    for (let i = 0; i < words.length; i++) {
+      this.addFeature(full, `w:${words[i]}`, 1.0);
+      if (i > 0) this.addFeature(full, `b:${words[i - 1]} ${words[i]}`, 0.75);
+      for (const gram of this.charGrams(words[i])) {
+        this.addFeature(full, `c:${gram}`, 0.5);
+      }
+    }
+    normalize(full);
+
+    return { matryoshka: deriveMatryoshka(full), colbert: this.tokenData(text) };
+  }
+
+  /**
+   * ColBERT data keeps the original surface tokens, one vector per token. A
+   * token's vector hashes its word (punctuation stripped) and character
+   * n-grams plus, at a lower weight, the neighbouring words, so the same word
+   * in a different context gets a slightly different vector. Importance is
+   * left at 1.0; corpus IDF weights are applied by `ColbertIndex`.
+   */
+  private tokenData(text: string): ColbertData {
+    const tokens = text.split(/\s+/).filter(Boolean);
+    const keys = tokens.map(token => this.words(token).join('') || token.toLowerCase());
+    const embeddings: Float32Array[] = [];
+    const importance = new Float32Array(tokens.length);
+
+    for (let i = 0; i < tokens.length; i++) {
+      const tokenVec = new Float32Array(this.tokenDimensions);
+      const word = keys[i];
+      this.addFeature(tokenVec, `w:${word}`, 1.0);
+      for (const gram of this.charGrams(word)) {
+        this.addFeature(tokenVec, `c:${gram}`, 0.5);
+      }
+      if (i > 0) this.addFeature(tokenVec, `w:${keys[i - 1]}`, CONTEXT_WEIGHT);
+      if (i + 1 < tokens.length) this.addFeature(tokenVec, `w:${keys[i + 1]}`, CONTEXT_WEIGHT);
+      normalize(tokenVec);
+
+      embeddings.push(tokenVec);
+      importance[i] = 1.0;
+    }
+
+    return { tokens, embeddings, importance };
+  }
+
+  private words(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+  }
+
+  private charGrams(word: string): string[] {
+    const padded = `<${word}>`;
+    if (padded.length <= this.charNgram) return [padded];
+
+    const grams: string[] = [];
+    for (let i = 0; i + this.charNgram <= padded.length; i++) {
+      grams.push(padded.substring(i, i + this.charNgram));
+    }
+    return grams;
+  }
+
+  /**
+   * Hashing trick: each probe hashes the feature to a bucket and a sign, which
+   * keeps collisions from systematically inflating similarity. Several probes
+   * per feature keep short texts from leaving the binary tiers all-zero.
+   */
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    for (let probe = 0; probe < FEATURE_PROBES; probe++) {
+      const h = fnv1a(feature, 0x811c9dc5 + probe * 0x9e3779b9);
+      const bucket = (h >>> 1) % vector.length;
+      vector[bucket] += (h & 1 ? 1 : -1) * weight;
+    }
+  }
+}
+
+function normalize(vector: Float32Array): void {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  if (norm === 0) return;
+
+  const inv = 1 / Math.sqrt(norm);
+  for (let i = 0; i < vector.length; i++) vector[i] *= inv;
+}
@@ -1,153 +1,2100 @@
 // src/core/UltraVectorDB.ts
 
+import { promises as fs } from 'fs';
 import {
   UltraChunk,
+  ChunkInput,
+  AddChunksOptions,
+  IngestProgress,
+  ChunkPatch,
   SearchResult,
-  ColbertData
+  SearchOptions,
+  BatchSearchOptions,
+  CollectionSearchOptions,
+  ColbertData,
+  EmbeddingProvider,
+  HybridOptions,
+  MMROptions,
+  MatryoshkaEmbeddings,
+  MemoryRankingOptions,
+  MemoryScores,
+  MetadataFilter,
+  CascadeKeepRatios,
+  ScoreWeights,
+  SearchBreakdown,
+  SearchPlan,
+  SearchStages,
+  TierScores,
+  UltraMetadata
 } from '../types';
-import { MatryoshkaGenerator } from './MatryoshkaGenerator';
-import { HNSWGraph } from './HNSWGraph';
+import { NgramEmbeddingProvider } from './NgramEmbeddingProvider';
+import { HNSWOptions } from './HNSWGraph';
+import { IVFIndex, IVFOptions } from './IVFIndex';
+import { WorkerPool } from './WorkerPool';
+import { BM25Index, BM25Options, LexicalHit } from './BM25Index';
+import { ColbertIndex, LateInteraction, LateInteractionOption, isLateInteraction, resolveLateInteraction } from './LateInteraction';
+import { packTokens } from './searchKernels';
+import { Index, IndexKind, createVectorIndex, restoreIndex, snapshotIndex, snapshotMetric } from './Index';
+import { compileFilter, filterFields } from './MetadataFilter';
+import { ConsolidatedChunk, ConsolidationOptions, mergeByMedoid } from './Consolidation';
+import { Chunker, paragraphChunker } from '../utils/chunking';
+import { MetadataSchema, MetadataSchemaSpec } from './MetadataSchema';
+import { BinaryCodeOptions, BinaryCodeStore } from './BinaryCodeStore';
+import {
+  MetadataIndex,
+  MetadataIndexKind,
+  MetadataIndexSpec,
+  candidateIdsFromIndexes,
+  createMetadataIndex
+} from './MetadataIndex';
 import { cosineSimilarity } from '../utils/cosineSimilarity';
+import { DistanceMetric, Metric, resolveMetric, restoreMetric, similarityOf } from '../utils/distance';
+import { deriveMatryoshka, MEDIUM_DIMENSIONS, SMALL_DIMENSIONS } from '../utils/matryoshka';
+import { hammingDistance, popcount32 } from '../utils/popcount';
+import { sharedInt32Array } from '../utils/shared';
+import { createQuantizer, PreparedQuery, QuantizerKind } from '../quantization/VectorQuantizer';
+import { ProductQuantizerOptions } from '../quantization/ProductQuantizer';
+import { QuantizedVectorStore } from '../quantization/QuantizedVectorStore';
+import { SnapshotState, decodeSnapshot, encodeSnapshot } from '../storage/snapshot';
+import { WalEntry, WalRecord, WriteAheadLog } from '../storage/WriteAheadLog';
+import { writeFileAtomic } from '../storage/atomicWrite';
+import { join } from 'path';
+
+export interface UltraVectorDBOptions {
+  /** Source of Matryoshka + ColBERT embeddings. Defaults to `NgramEmbeddingProvider`. */
+  embedder?: EmbeddingProvider;
+  /** Expected `full` dimensionality. Defaults to the embedder's; must agree with it. */
+  dimensions?: number;
+  /** Secondary metadata indexes to maintain (see `createIndex`). */
+  indexes?: MetadataIndexSpec[];
+  /** Declared metadata fields; chunks, filters and indexes naming other fields are rejected. */
+  schema?: MetadataSchemaSpec;
+  /** Filters whose indexed match set is at most this size are scored by brute force. Default 2000. */
+  bruteForceLimit?: number;
+  /** Compress the full and/or medium tiers (see `QuantizationOptions`). */
+  quantization?: QuantizationOptions;
+  /** Stage-2 index: HNSW graph (default), exact flat scan, or IVF buckets. Stored in snapshots. */
+  index?: IndexKind;
+  /** Distance for the stage-2 index and the full-vector rerank (default cosine). Stored in snapshots. */
+  metric?: Metric;
+  /** Graph construction settings (layer-0 cap, neighbor heuristic, seeded RNG). */
+  hnsw?: Omit<HNSWOptions, 'metric'>;
+  /** IVF settings (lists, nprobe, PQ residuals) when `index` is `ivf`. */
+  ivf?: Omit<IVFOptions, 'metric'>;
+  /** Packed binary codes scanned by stage 1; `signThreshold` defaults to the embedder's `binaryThreshold`. */
+  binaryCodes?: BinaryCodeOptions & {
+    /** `median` mode fits thresholds once the collection reaches this size (default 1000). */
+    trainingSize?: number;
+  };
+  /**
+   * Stage-3 token scorer: a custom `LateInteraction`, or settings for the
+   * default `ColbertIndex` (IDF weights, centroid index). The default index's
+   * trained centroids are stored in snapshots; a custom one is rebuilt on load.
+   */
+  lateInteraction?: LateInteractionOption;
+  /** Tokenizer (stemming, stop words) and parameters of the BM25 index used by hybrid search. */
+  bm25?: BM25Options;
+  /** Time to live in ms of chunks added without their own `ttl` or `expiresAt` (default none). */
+  ttl?: number;
+  /** Receives diagnostics: each stage's candidate count per query, and failed background sweeps (default silent). */
+  logger?: (message: string) => void;
+}
 
 /**
- * Simple placeholder ColBERT engine.
+ * Optional int8 / product quantization of the float tiers. Until
+ * `trainingSize` chunks exist (or `trainQuantizers()` is called) vectors stay
+ * float32; after training, quantized tiers are stored only as codes and the
+ * chunk's float arrays are decoded on access. HNSW then traverses the medium
+ * codes. Snapshots store the trained quantizers and codes, so a loaded DB
+ * scores exactly like the saved one.
  */
-class ColBERTEngine {
-  public score(query: string, doc: ColbertData): number {
-    if (!doc.tokens.length || !doc.embeddings.length) return 0;
+export interface QuantizationOptions {
+  full?: QuantizerKind;
+  medium?: QuantizerKind;
+  pq?: ProductQuantizerOptions;
+  /** Chunks to collect before training (default 1000). */
+  trainingSize?: number;
+  /** Keep float32 `full` vectors and rerank exactly (default false). */
+  exactRerank?: boolean;
+}
+
+export interface AddDocumentOptions {
+  /** Default `paragraphChunker()`. */
+  chunker?: Chunker;
+  /** Merged into every chunk's metadata; `type` defaults to `document`. */
+  metadata?: Partial<UltraMetadata>;
+  /** Time to live in ms of every chunk (see `ChunkInput.ttl`). */
+  ttl?: number;
+}
+
+/** Settings of a named collection (see `createCollection`). */
+export interface CollectionOptions extends UltraVectorDBOptions {
+  M?: number;
+  efConstruction?: number;
+}
+
+export interface OpenOptions extends CollectionOptions {
+  /** fsync every log append before acknowledging it (default true). */
+  syncWrites?: boolean;
+  /** Start the expiry sweeper (see `startSweeper`) with this interval in ms. */
+  sweepIntervalMs?: number;
+  /**
+   * Options that cannot be stored (embedders, custom metrics, scorers or loggers) for
+   * named collections, by current name; merged over their stored settings.
+   */
+  collections?: Record<string, CollectionOptions>;
+}
+
+export interface CollectionInfo {
+  name: string;
+  chunks: number;
+  dimensions: number;
+  index: IndexKind;
+  metric: string;
+}
+
+/** Name of the collection the DB instance itself holds. */
+export const DEFAULT_COLLECTION = 'default';
 
-    const queryTokens = query.split(/\s+/).filter(Boolean);
-    if (!queryTokens.length) return 0;
+const DEFAULT_LIMIT = 5;
+const DEFAULT_STAGES: Required<SearchStages> = {
+  binary: true,
+  small: true,
+  medium: true,
+  hnsw: true,
+  lateInteraction: false,
+  colbert: true,
+  rerank: true
+};
+const DEFAULT_KEEP_RATIOS: Required<CascadeKeepRatios> = { small: 0.5, medium: 0.5 };
+const DEFAULT_WEIGHTS: Required<ScoreWeights> = { colbert: 0.6, full: 0.4 };
+const DEFAULT_HYBRID: Required<HybridOptions> = { fusion: 'rrf', rrfK: 60, lexicalWeight: 0.5, candidates: 50 };
+const DEFAULT_MMR_LAMBDA = 0.7;
+const DEFAULT_CONSOLIDATION_AGE = 30 * 24 * 60 * 60 * 1000;
+const DOCUMENT_FIELDS = ['docId', 'chunkIndex', 'startOffset', 'endOffset', 'heading'] as const;
+const DEFAULT_MEMORY: Omit<MemoryRanking, 'now'> = {
+  halfLifeMs: 7 * 24 * 60 * 60 * 1000,
+  maxImportance: 10,
+  frequencyMidpoint: 5,
+  weights: { semantic: 1, recency: 0.3, importance: 0.2, frequency: 0.1 },
+  recordAccess: true
+};
+
+const SNAPSHOT_FILE = 'snapshot.uvdb';
+const WAL_FILE = 'wal.log';
+const MANIFEST_FILE = 'collections.json';
+const COLLECTIONS_DIR = 'collections';
+
+export class UltraVectorDB {
+  private dataStore = new Map<string, UltraChunk>();
+  private vectorIndex: Index;
+  private indexKind: IndexKind;
+  private lateInteraction: LateInteraction;
+  private lexicalIndex: BM25Index;
+  private embedder: EmbeddingProvider;
+  public readonly dimensions: number;
+  private indexes = new Map<string, MetadataIndex>();
+  private documents = new Map<string, Map<number, string>>(); // docId -> chunkIndex -> chunk id
+  private schema: MetadataSchema | null;
+  private bruteForceLimit: number;
+  private binaryCodes: BinaryCodeStore;
+  private binaryCodesFitted = false;
+  private binaryTrainingSize: number;
+  private quantization: QuantizationOptions;
+  private fullStore: QuantizedVectorStore | null = null;
+  private mediumStore: QuantizedVectorStore | null = null;
+  private quantizersTrained = false;
+  private hnswOptions: Omit<HNSWOptions, 'metric'>;
+  private ivfOptions: Omit<IVFOptions, 'metric'>;
+  private metric: DistanceMetric;
+  private ttl: number | undefined;
+  private log: (message: string) => void;
+  private sweeper: ReturnType<typeof setInterval> | null = null; // root only
+  private sweeping: Promise<void> | null = null;
+  private adding = new Set<string>(); // ids of new chunks being written (see `reserveNewIds`)
+
+  // durable mode only (see `open`)
+  private wal: WriteAheadLog | null = null;
+  private directory: string | null = null;
+  private appliedSeq = 0; // last WAL record reflected in memory
+
+  // Named collections are UltraVectorDB instances owned by `root`, which
+  // holds the registry and the shared log. Keys are stable across renames.
+  private root: UltraVectorDB = this;
+  private collectionKey = 0;
+  private collectionName = DEFAULT_COLLECTION;
+  private settings: CollectionOptions = {};  // JSON-safe options, as logged
+  private dropped = false;
+  private collections = new Map<string, UltraVectorDB>(); // root only, by name
+  private collectionOptions = new Map<number, CollectionOptions>(); // root only: runtime options by key
+  private nextCollectionKey = 1;
+  private indexing = new Set<Promise<void>>(); // root only: bulk inserts in flight (see `commitBatch`)
+
+  constructor(
+    public M: number = 16,
+    public efConstruction: number = 200,
+    options: UltraVectorDBOptions = {}
+  ) {
+    this.embedder = options.embedder ?? new NgramEmbeddingProvider({ dimensions: options.dimensions });
+    this.dimensions = options.dimensions ?? this.embedder.dimensions;
+
+    if (this.dimensions !== this.embedder.dimensions) {
+      throw new Error(
+        `Configured dimensions (${this.dimensions}) do not match embedder dimensions (${this.embedder.dimensions})`
+      );
+    }
+    if (this.dimensions < MEDIUM_DIMENSIONS) {
+      throw new Error(`UltraVectorDB needs at least ${MEDIUM_DIMENSIONS} dimensions, got ${this.dimensions}`);
+    }
 
-    const makeQueryTokenEmbedding = (token: string): Float32Array => {
-      const vec = new Float32Array(32);
-      const base = token.length;
-      for (let i = 0; i < 32; i++) {
-        vec[i] = Math.sin((base + i) * 0.05);
+    this.schema = options.schema ? new MetadataSchema(options.schema) : null;
+    this.bruteForceLimit = options.bruteForceLimit ?? 2000;
+    this.binaryCodes = new BinaryCodeStore(this.dimensions, {
+      ...options.binaryCodes,
+      signThreshold: options.binaryCodes?.signThreshold ?? this.embedder.binaryThreshold
+    });
+    this.binaryTrainingSize = options.binaryCodes?.trainingSize ?? 1000;
+    this.quantization = options.quantization ?? {};
+    this.resetQuantizedStores();
+    for (const spec of options.indexes ?? []) {
+      this.createIndex(spec.field, spec.kind);
+    }
+
+    this.metric = resolveMetric(options.metric);
+    this.indexKind = options.index ?? 'hnsw';
+    this.hnswOptions = options.hnsw ?? {};
+    this.ivfOptions = options.ivf ?? {};
+    this.vectorIndex = this.newVectorIndex();
+    this.lateInteraction = resolveLateInteraction(options.lateInteraction);
+    this.lexicalIndex = new BM25Index(options.bm25);
+    this.ttl = options.ttl;
+    this.log = options.logger ?? (() => {});
+  }
+
+  /**
+   * Add a new chunk. If `chunk.full` is supplied it is used as-is and the
+   * smaller tiers are derived from it; otherwise the embedder computes everything.
+   * Throws if the id already exists — use `upsertChunk` to replace.
+   */
+  public async addChunk(input: ChunkInput): Promise<void> {
+    const chunk = this.withExpiry(input);
+    this.schema?.validate(chunk.metadata, chunk.id);
+    const embedded = await this.embedChunk(chunk);
+
+    const release = this.reserveNewIds([chunk.id]);
+    try {
+      await this.commit({ op: 'add', chunk: embedded });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Add many chunks, embedding, logging and indexing them a batch at a time.
+   * With `workers > 1` the HNSW candidate searches of each batch run on worker
+   * threads (see `HNSWGraph.insertBulk`). Like `addChunk`, throws on an id that
+   * already exists or repeats in the input; earlier batches stay added.
+   *
+   * @returns the final progress report
+   */
+  public async addChunks(
+    chunks: Iterable<ChunkInput> | AsyncIterable<ChunkInput>,
+    options: AddChunksOptions = {}
+  ): Promise<IngestProgress> {
+    const batchSize = Math.max(1, options.batchSize ?? 256);
+    const started = Date.now();
+    const progress: IngestProgress = { added: 0, batches: 0, elapsedMs: 0, chunksPerSecond: 0 };
+    if (Array.isArray(chunks)) progress.total = chunks.length;
+
+    const pool = (options.workers ?? 0) > 1 ? new WorkerPool(options.workers!) : null;
+    const flush = async (batch: PendingChunk[]) => {
+      const embedded = await this.embedChunks(batch);
+      const release = this.reserveNewIds(batch.map(chunk => chunk.id));
+      try {
+        await this.commitBatch(embedded, pool);
+      } finally {
+        release();
       }
-      return vec;
+      progress.added += batch.length;
+      progress.batches++;
+      progress.elapsedMs = Date.now() - started;
+      progress.chunksPerSecond = progress.elapsedMs > 0 ? (progress.added * 1000) / progress.elapsedMs : 0;
+      options.onProgress?.({ ...progress });
     };
 
-    const queryEmbeddings = queryTokens.map(makeQueryTokenEmbedding);
-    const docEmbeddings = doc.embeddings;
-    const docImportance = doc.importance;
+    try {
+      // ids already stored are rejected when the batch is written (see `reserveNewIds`)
+      let batch = new Map<string, PendingChunk>();
+      for await (const input of chunks) {
+        if (batch.has(input.id)) throw new Error(`Chunk "${input.id}" appears more than once in the input`);
+        const chunk = this.withExpiry(input);
+        this.schema?.validate(chunk.metadata, chunk.id);
 
-    let totalScore = 0;
+        batch.set(chunk.id, chunk);
+        if (batch.size >= batchSize) {
+          await flush(Array.from(batch.values()));
+          batch = new Map();
+        }
+      }
+      if (batch.size > 0) await flush(Array.from(batch.values()));
+    } finally {
+      await pool?.close();
+    }
 
-    for (let qi = 0; qi < queryEmbeddings.length; qi++) {
-      const qEmb = queryEmbeddings[qi];
-      let maxSim = 0;
+    return progress;
+  }
+
+  /**
+   * Add a chunk, replacing (and re-linking) any existing chunk with the same id.
+   */
+  public async upsertChunk(input: ChunkInput): Promise<void> {
+    const chunk = this.withExpiry(input);
+    this.schema?.validate(chunk.metadata, chunk.id);
+    await this.commit({ op: 'add', chunk: await this.embedChunk(chunk) });
+  }
+
+  /**
+   * Patch an existing chunk. Metadata is shallow-merged; a new `content` or
+   * `full` vector re-embeds the chunk and re-links its HNSW node.
+   */
+  public async updateChunk(id: string, patch: ChunkPatch): Promise<void> {
+    const chunk = this.dataStore.get(id);
+    if (!chunk) throw new Error(`Unknown chunk "${id}"`);
+
+    const metadata = { ...chunk.metadata, ...patch.metadata };
+    this.schema?.validate(metadata, id);
+
+    if (patch.content === undefined && patch.full === undefined) {
+      await this.commit({ op: 'updateMetadata', id, metadata });
+      return;
+    }
+
+    const updated = await this.embedChunk({
+      id,
+      content: patch.content ?? chunk.content,
+      metadata,
+      full: patch.full
+    });
+    await this.commit({ op: 'add', chunk: updated });
+  }
+
+  /**
+   * Shallow-merge `patch` into a chunk's metadata.
+   */
+  public async updateMetadata(id: string, patch: Partial<UltraMetadata>): Promise<void> {
+    await this.updateChunk(id, { metadata: patch });
+  }
+
+  /**
+   * Remove a chunk and its HNSW node. Returns false if the id was unknown.
+   */
+  public async deleteChunk(id: string): Promise<boolean> {
+    if (!this.dataStore.has(id)) return false;
+    await this.commit({ op: 'delete', id });
+    return true;
+  }
 
-      for (let di = 0; di < docEmbeddings.length; di++) {
-        const dEmb = docEmbeddings[di];
-        const sim = cosineSimilarity(qEmb, dEmb) * (docImportance[di] ?? 1.0);
-        if (sim > maxSim) maxSim = sim;
+  /**
+   * Split `text` with the chunker and add the pieces as chunks `<docId>#<index>`,
+   * recording `docId`, `chunkIndex`, the character offsets and (Markdown) the
+   * heading in their metadata. Adding a document again replaces its chunks.
+   * Every chunk is embedded before anything is written, and the old version's
+   * removal and the new chunks go to the log together, so a failure leaves
+   * the previous version intact.
+   *
+   * @returns the chunk ids, in document order
+   */
+  public async addDocument(docId: string, text: string, options: AddDocumentOptions = {}): Promise<string[]> {
+    const { chunker = paragraphChunker(), metadata: shared, ttl } = options;
+    const chunks: PendingChunk[] = chunker(text).map((span, chunkIndex) => {
+      const metadata: UltraMetadata = {
+        type: 'document',
+        ...shared,
+        docId,
+        chunkIndex,
+        startOffset: span.start,
+        endOffset: span.end
+      };
+      if (span.heading !== undefined) metadata.heading = span.heading;
+      return this.withExpiry({ id: `${docId}#${chunkIndex}`, content: span.text, metadata, ttl });
+    });
+
+    for (const chunk of chunks) {
+      const existing = this.dataStore.get(chunk.id);
+      if (existing && existing.metadata.docId !== docId) {
+        throw new Error(`Chunk "${chunk.id}" already exists and is not part of document "${docId}"`);
       }
+      this.schema?.validate(chunk.metadata, chunk.id);
+    }
+
+    const embedded = await this.embedChunks(chunks);
+    const ids = new Set(chunks.map(chunk => chunk.id));
+    const stale = this.documentChunkIds(docId).filter(id => !ids.has(id));
+    await this.commitEntries([
+      ...stale.map((id): ChunkEntry => ({ op: 'delete', id })),
+      ...embedded.map((chunk): ChunkEntry => ({ op: 'add', chunk }))
+    ]);
+    return chunks.map(chunk => chunk.id);
+  }
 
-      totalScore += maxSim;
+  /**
+   * Remove every chunk of a document, in one log write.
+   *
+   * @returns the number of chunks removed
+   */
+  public async deleteDocument(docId: string): Promise<number> {
+    const ids = this.documentChunkIds(docId);
+    if (ids.length > 0) await this.commitEntries(ids.map((id): ChunkEntry => ({ op: 'delete', id })));
+    return ids.length;
+  }
+
+  /**
+   * Chunks of `docId`: those whose metadata names the document and whose id is
+   * `<docId>#<index>`, so a chunk that merely carries the metadata is left alone.
+   */
+  private documentChunkIds(docId: string): string[] {
+    const prefix = `${docId}#`;
+    return Array.from(this.documents.get(docId)?.values() ?? []).filter(id => id.startsWith(prefix));
+  }
+
+  /**
+   * Delete every chunk whose `expiresAt` has passed, in one log write.
+   * Searches already skip such chunks; this reclaims their space.
+   *
+   * @returns the number of chunks removed
+   */
+  public async sweepExpired(now: number = Date.now()): Promise<number> {
+    if (this.dropped) return 0;
+    const expired: ChunkEntry[] = [];
+    for (const chunk of this.dataStore.values()) {
+      if (isExpired(chunk, now)) expired.push({ op: 'delete', id: chunk.id });
     }
+    if (expired.length > 0) await this.commitEntries(expired);
+    return expired.length;
+  }
 
-    return totalScore / queryEmbeddings.length;
+  /**
+   * Run `sweepExpired` over every collection each `intervalMs`, until
+   * `stopSweeper` or `close`. The timer does not keep the process alive, and
+   * a failed sweep is reported to the root's `logger` and retried next time.
+   */
+  public startSweeper(intervalMs = 60_000): void {
+    if (this.root !== this) return this.root.startSweeper(intervalMs);
+    this.stopSweeper();
+    this.sweeper = setInterval(() => {
+      if (this.sweeping) return;
+      this.sweeping = (async () => {
+        for (const db of [this, ...this.collections.values()]) await db.sweepExpired();
+      })()
+        .catch(error => this.log(`- Expiry sweep failed: ${error instanceof Error ? error.message : error}`))
+        .finally(() => (this.sweeping = null));
+    }, intervalMs);
+    this.sweeper.unref?.();
   }
-}
 
-export class UltraVectorDB {
-  private dataStore = new Map<string, UltraChunk>();
-  private hnsw: HNSWGraph;
-  private colbert = new ColBERTEngine();
-  private matryoshkaGen = new MatryoshkaGenerator();
+  public stopSweeper(): void {
+    if (this.root !== this) return this.root.stopSweeper();
+    if (this.sweeper) clearInterval(this.sweeper);
+    this.sweeper = null;
+  }
 
-  constructor(
-    public M: number = 16,
-    public efConstruction: number = 200
-  ) {
-    this.hnsw = new HNSWGraph(this.M, this.efConstruction);
-    console.log('UltraVectorDB initialized with advanced 2024-2025 optimizations.');
+  /**
+   * Merge clusters of near-duplicate old chunks. Eligible chunks are taken
+   * oldest first; each still unclustered one gathers the eligible nearest
+   * neighbours (from the vector index) whose `full` vectors are within
+   * `threshold` cosine of it. Each cluster is passed to `merge`, and the
+   * result replaces it in one log write, with the original ids in
+   * `metadata.sources` (flattened, so repeated consolidation keeps the
+   * first-generation ids). The merged chunk belongs to no document, so the
+   * document fields of the merged metadata are dropped.
+   */
+  public async consolidate(options: ConsolidationOptions = {}): Promise<ConsolidatedChunk[]> {
+    this.assertLive();
+    const now = options.now ?? Date.now();
+    const minAge = options.minAgeMs ?? DEFAULT_CONSOLIDATION_AGE;
+    const threshold = options.threshold ?? 0.9;
+    const minClusterSize = Math.max(2, options.minClusterSize ?? 2);
+    const merge = options.merge ?? mergeByMedoid;
+
+    let predicate: ((metadata: UltraMetadata) => boolean) | null = null;
+    if (options.filter) {
+      predicate = compileFilter(options.filter);
+      this.schema?.validateFilter(options.filter);
+    }
+
+    const eligible = new Set<string>();
+    const created = (chunk: UltraChunk) => chunk.metadata.created ?? 0;
+    const seeds = Array.from(this.dataStore.values())
+      .filter(chunk => {
+        const seen = chunk.metadata.lastAccessed ?? chunk.metadata.created;
+        if (seen !== undefined && now - seen < minAge) return false;
+        return !isExpired(chunk, now) && (!predicate || predicate(chunk.metadata));
+      })
+      .sort((a, b) => created(a) - created(b));
+    for (const chunk of seeds) eligible.add(chunk.id);
+
+    const neighbors = options.neighbors ?? 32;
+    const clusters: UltraChunk[][] = [];
+    for (const seed of seeds) {
+      if (!eligible.delete(seed.id)) continue;
+      const vector = seed.matryoshka.full;
+      const cluster = [seed];
+      for (const id of this.vectorIndex.search(seed.matryoshka.medium, neighbors, id => eligible.has(id))) {
+        const chunk = this.dataStore.get(id)!;
+        if (cosineSimilarity(vector, chunk.matryoshka.full) < threshold) continue;
+        cluster.push(chunk);
+        eligible.delete(id);
+      }
+      if (cluster.length >= minClusterSize) clusters.push(cluster);
+    }
+
+    const consolidated: ConsolidatedChunk[] = [];
+    for (const cluster of clusters) {
+      const merged = await merge(cluster);
+      const id = merged.id ?? cluster[0].id;
+      if (this.dataStore.has(id) && !cluster.some(chunk => chunk.id === id)) {
+        throw new Error(`Merged chunk id "${id}" belongs to a chunk outside the cluster`);
+      }
+
+      const sources = [...new Set(cluster.flatMap(chunk => chunk.metadata.sources ?? [chunk.id]))];
+      const metadata: UltraMetadata = { ...merged.metadata, sources };
+      for (const field of DOCUMENT_FIELDS) delete metadata[field];
+      this.schema?.validate(metadata, id);
+
+      const chunk = await this.embedChunk({ id, content: merged.content, metadata, full: merged.full });
+      const removed = cluster.filter(c => c.id !== id).map((c): ChunkEntry => ({ op: 'delete', id: c.id }));
+      await this.commitEntries([{ op: 'add', chunk }, ...removed]);
+      consolidated.push({ id, sources });
+    }
+
+    return consolidated;
+  }
+
+  private resetQuantizedStores(): void {
+    const q = this.quantization;
+    this.fullStore = q.full
+      ? new QuantizedVectorStore(createQuantizer(q.full, this.dimensions, q.pq))
+      : null;
+    this.mediumStore = q.medium
+      ? new QuantizedVectorStore(createQuantizer(q.medium, MEDIUM_DIMENSIONS, q.pq))
+      : null;
+    this.quantizersTrained = false;
+  }
+
+  private maybeTrainQuantizers(): void {
+    if (this.quantizersTrained || (!this.fullStore && !this.mediumStore)) return;
+    if (this.dataStore.size >= (this.quantization.trainingSize ?? 1000)) this.trainQuantizers();
+  }
+
+  /**
+   * Train the configured quantizers on (a sample of) the current collection,
+   * encode every chunk and switch HNSW to traversing medium codes.
+   * Runs automatically once `quantization.trainingSize` chunks exist.
+   */
+  public trainQuantizers(): void {
+    if (!this.fullStore && !this.mediumStore) return;
+    if (this.dataStore.size === 0) throw new Error('trainQuantizers() needs at least one chunk');
+
+    const chunks = Array.from(this.dataStore.values());
+    const sampleSize = Math.min(chunks.length, this.quantization.trainingSize ?? 1000);
+    const sample = Array.from({ length: sampleSize }, (_, i) =>
+      chunks[Math.floor((i * chunks.length) / sampleSize)].matryoshka
+    );
+
+    this.fullStore?.quantizer.train(sample.map(m => m.full));
+    this.mediumStore?.quantizer.train(sample.map(m => m.medium));
+    this.quantizersTrained = true;
+
+    for (const chunk of chunks) this.compactTiers(chunk);
+    if (this.mediumStore) this.vectorIndex.useQuantizedVectors?.(this.mediumStore);
+  }
+
+  /** Move a chunk's float tiers into the quantized stores. */
+  private compactTiers(chunk: UltraChunk): void {
+    this.fullStore?.add(chunk.id, chunk.matryoshka.full);
+    this.mediumStore?.add(chunk.id, chunk.matryoshka.medium);
+    this.releaseTiers(chunk);
+  }
+
+  /**
+   * Drop the float copies of quantized tiers. Released tiers become getters
+   * that decode on access; retained ones share one buffer, since medium and
+   * small are prefixes of full.
+   */
+  private releaseTiers(chunk: UltraChunk): void {
+    const m = chunk.matryoshka;
+    const id = chunk.id;
+    const fullStore = this.fullStore;
+    const mediumStore = this.mediumStore;
+
+    if (!fullStore || this.quantization.exactRerank) {
+      m.medium = m.full.subarray(0, MEDIUM_DIMENSIONS);
+      m.small = m.full.subarray(0, SMALL_DIMENSIONS);
+      return;
+    }
+
+    m.small = m.small.slice();
+    defineDecodedTier(m, 'full', () => fullStore.decode(id) ?? new Float32Array(this.dimensions));
+    if (mediumStore) {
+      defineDecodedTier(m, 'medium', () => mediumStore.decode(id) ?? new Float32Array(MEDIUM_DIMENSIONS));
+    }
+  }
+
+  /**
+   * Adopt the quantizers and codes saved in a snapshot. Returns false, leaving
+   * the stores untrained, when they were not saved trained or the configured
+   * quantizer kinds differ from the saved ones.
+   */
+  private restoreQuantizers(quantized: SnapshotState['quantized']): boolean {
+    const tiers = [
+      [this.fullStore, quantized.full],
+      [this.mediumStore, quantized.medium]
+    ] as const;
+    if (!this.fullStore && !this.mediumStore) return false;
+    if (tiers.some(([store, saved]) => store && saved?.kind !== store.quantizer.kind)) return false;
+
+    for (const [store, saved] of tiers) if (store && saved) store.restore(saved);
+    this.quantizersTrained = true;
+    for (const chunk of this.dataStore.values()) {
+      // a chunk without a saved code (none expected) is encoded afresh
+      if (this.fullStore && !this.fullStore.has(chunk.id)) this.fullStore.add(chunk.id, chunk.matryoshka.full);
+      if (this.mediumStore && !this.mediumStore.has(chunk.id)) this.mediumStore.add(chunk.id, chunk.matryoshka.medium);
+      this.releaseTiers(chunk);
+    }
+    return true;
+  }
+
+  /** Median thresholds are fitted once, as soon as there is enough data. */
+  private maybeFitBinaryCodes(): void {
+    if (this.binaryCodesFitted || this.binaryCodes.threshold !== 'median') return;
+    if (this.dataStore.size >= this.binaryTrainingSize) this.retrainBinaryCodes();
+  }
+
+  private async embedChunk(chunk: PendingChunk): Promise<UltraChunk> {
+    const { full, ...rest } = chunk;
+    let matryoshka: MatryoshkaEmbeddings;
+    let colbert: ColbertData;
+
+    if (full) {
+      this.assertDimensions(full, `chunk "${chunk.id}"`);
+      matryoshka = deriveMatryoshka(full, this.embedder.binaryThreshold);
+      colbert = this.embedder.embedTokens
+        ? await this.embedder.embedTokens(chunk.content)
+        : (await this.embedder.embed(chunk.content)).colbert;
+    } else {
+      ({ matryoshka, colbert } = await this.embedder.embed(chunk.content));
+    }
+
+    return { ...rest, matryoshka, colbert };
+  }
+
+  /** `embedChunk` for a batch; chunks without a `full` vector share one `embedBatch` call. */
+  private async embedChunks(chunks: PendingChunk[]): Promise<UltraChunk[]> {
+    const texts = chunks.filter(chunk => !chunk.full).map(chunk => chunk.content);
+    const embedded = texts.length > 0 ? await this.embedder.embedBatch(texts) : [];
+
+    let next = 0;
+    const out: UltraChunk[] = [];
+    for (const chunk of chunks) {
+      const { full, ...rest } = chunk;
+      out.push(full ? await this.embedChunk(chunk) : { ...rest, ...embedded[next++] });
+    }
+    return out;
+  }
+
+  /**
+   * Resolve the chunk's `ttl`, or else the collection's, into `metadata.expiresAt`.
+   * An explicit `expiresAt` is kept unless the chunk has its own `ttl`.
+   */
+  private withExpiry(input: ChunkInput): PendingChunk {
+    const { ttl: own, ...chunk } = input;
+    const ttl = own ?? (chunk.metadata.expiresAt === undefined ? this.ttl : undefined);
+    if (ttl === undefined) return chunk;
+    return { ...chunk, metadata: { ...chunk.metadata, expiresAt: Date.now() + ttl } };
+  }
+
+  /**
+   * Claim the ids of chunks about to be added, throwing if one is stored or
+   * already claimed. Called once the chunks are embedded, right before their
+   * log write, so two concurrent adds of one id cannot both succeed.
+   *
+   * @returns releases the claim; call it once the write has settled
+   */
+  private reserveNewIds(ids: string[]): () => void {
+    for (const id of ids) {
+      if (this.dataStore.has(id) || this.adding.has(id)) {
+        throw new Error(`Chunk "${id}" already exists (use upsertChunk to replace it)`);
+      }
+    }
+    ids.forEach(id => this.adding.add(id));
+    return () => ids.forEach(id => this.adding.delete(id));
+  }
+
+  /**
+   * Log the mutation first (when durable), then apply it in memory.
+   */
+  private async commit(entry: ChunkEntry): Promise<void> {
+    this.assertLive();
+    this.apply(this.wal ? await this.wal.append(this.scoped(entry)) : entry);
+  }
+
+  /** `commit` for several mutations, written to the log at once. */
+  private async commitEntries(entries: ChunkEntry[]): Promise<void> {
+    this.assertLive();
+    const scoped = entries.map(entry => this.scoped(entry));
+    for (const entry of this.wal ? await this.wal.appendBatch(scoped) : entries) this.apply(entry);
+  }
+
+  /** Tag a chunk record with this collection's key (the default collection has none). */
+  private scoped<E extends ChunkEntry>(entry: E): E {
+    return this.collectionKey ? { ...entry, collection: this.collectionKey } : entry;
+  }
+
+  private assertLive(): void {
+    if (this.dropped) throw new Error(`Collection "${this.collectionName}" has been dropped`);
+  }
+
+  /**
+   * `commit` for a batch of new chunks: one log write, then one bulk insert
+   * into the vector index, or single inserts should the bulk insert fail. The
+   * chunks are applied (and their log records counted as applied) before the
+   * insert finishes, so snapshots wait for every batch in flight (see
+   * `settleIndexing`).
+   */
+  private commitBatch(chunks: UltraChunk[], pool: WorkerPool | null): Promise<void> {
+    const task = this.insertBatch(chunks, pool);
+    const inFlight = this.root.indexing;
+    const settled = task.then(() => undefined, () => undefined);
+    inFlight.add(settled);
+    void settled.then(() => inFlight.delete(settled));
+    return task;
   }
 
-  public async addChunk(
-    chunk: Omit<UltraChunk, 'matryoshka' | 'colbert'>
-  ): Promise<void> {
-    const { matryoshka, colbert } = this.matryoshkaGen.generateAll(chunk.content);
-    const fullChunk: UltraChunk = { ...chunk, matryoshka, colbert };
-    this.dataStore.set(chunk.id, fullChunk);
-    this.hnsw.insert(chunk.id, matryoshka.medium);
+  /** Wait until no `commitBatch` of any collection is still linking its chunks into the vector index. */
+  private async settleIndexing(): Promise<void> {
+    const inFlight = this.root.indexing;
+    while (inFlight.size > 0) await Promise.all(inFlight);
   }
 
-  public async ultraSearch(query: string, limit: number = 5): Promise<SearchResult[]> {
+  private async insertBatch(chunks: UltraChunk[], pool: WorkerPool | null): Promise<void> {
+    this.assertLive();
+    const entries = chunks.map(chunk => this.scoped<ChunkEntry>({ op: 'add', chunk }));
+    for (const entry of this.wal ? await this.wal.appendBatch(entries) : entries) this.apply(entry, true);
+
+    const vectors = chunks.map(chunk => [chunk.id, chunk.matryoshka.medium] as [string, Float32Array]);
+    if (this.vectorIndex.insertBulk) {
+      try {
+        await this.vectorIndex.insertBulk(vectors, { pool: pool ?? undefined });
+      } catch (error) {
+        // the chunks are already stored and logged, so link them one at a time rather than leave them unsearchable
+        this.log(`- Bulk index insert failed, inserting one by one: ${error instanceof Error ? error.message : error}`);
+        for (const [id, vector] of vectors) if (this.dataStore.has(id)) this.vectorIndex.insert(id, vector);
+      }
+    } else {
+      for (const [id, vector] of vectors) this.vectorIndex.insert(id, vector);
+    }
+
+    // a chunk deleted while the bulk insert was running must not stay indexed
+    for (const chunk of chunks) {
+      if (!this.dataStore.has(chunk.id)) this.vectorIndex.remove(chunk.id);
+    }
+  }
+
+  /**
+   * @param deferVectorIndex leave the vector index to the caller (see `commitBatch`)
+   */
+  private apply(entry: ChunkEntry, deferVectorIndex = false): void {
+    if ('seq' in entry) this.markApplied(entry.seq);
+
+    switch (entry.op) {
+      case 'add': {
+        // Index.insert replaces an existing entry with the same id
+        const previous = this.dataStore.get(entry.chunk.id);
+        if (previous) this.unindexChunk(previous);
+        this.dataStore.set(entry.chunk.id, entry.chunk);
+        this.indexChunk(entry.chunk);
+        this.binaryCodes.add(entry.chunk.id, entry.chunk.matryoshka.full);
+        this.lateInteraction.add(entry.chunk.id, entry.chunk.colbert);
+        this.lexicalIndex.add(entry.chunk.id, entry.chunk.content);
+        // quantized traversal needs the medium code in place before linking
+        if (this.quantizersTrained) this.compactTiers(entry.chunk);
+        if (!deferVectorIndex) this.vectorIndex.insert(entry.chunk.id, entry.chunk.matryoshka.medium);
+        this.maybeFitBinaryCodes();
+        this.maybeTrainQuantizers();
+        break;
+      }
+      case 'delete': {
+        const chunk = this.dataStore.get(entry.id);
+        if (chunk) this.unindexChunk(chunk);
+        this.dataStore.delete(entry.id);
+        this.vectorIndex.remove(entry.id);
+        this.binaryCodes.remove(entry.id);
+        this.lateInteraction.remove(entry.id);
+        this.lexicalIndex.remove(entry.id);
+        this.fullStore?.remove(entry.id);
+        this.mediumStore?.remove(entry.id);
+        break;
+      }
+      case 'updateMetadata': {
+        const chunk = this.dataStore.get(entry.id);
+        if (!chunk) break;
+        this.unindexChunk(chunk);
+        chunk.metadata = entry.metadata;
+        this.indexChunk(chunk);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Record that log record `seq` is reflected in memory. The root's
+   * `appliedSeq` covers every collection, so it is where compaction may
+   * truncate the shared log.
+   */
+  private markApplied(seq: number): void {
+    this.appliedSeq = seq;
+    this.root.appliedSeq = Math.max(this.root.appliedSeq, seq);
+  }
+
+  /** Declared metadata fields, or null when metadata is free-form. */
+  public get metadataSchema(): MetadataSchemaSpec | null {
+    return this.schema?.spec ?? null;
+  }
+
+  /** This collection's name (`default` for the DB that owns the others). */
+  public get name(): string {
+    return this.collectionName;
+  }
+
+  /**
+   * A named collection: its own chunks, embedder, dimensionality, index and
+   * metric, sharing this DB's storage. Throws if it does not exist.
+   */
+  public collection(name: string): UltraVectorDB {
+    const root = this.root;
+    if (name === DEFAULT_COLLECTION) return root;
+
+    const db = root.collections.get(name);
+    if (!db) throw new Error(`Unknown collection "${name}"`);
+    return db;
+  }
+
+  /**
+   * Create a named collection. `options` are validated up front; their
+   * JSON-safe part is logged, so a durable DB restores the collection on
+   * `open` (pass embedders and custom metrics again via `OpenOptions.collections`).
+   */
+  public async createCollection(name: string, options: CollectionOptions = {}): Promise<UltraVectorDB> {
+    const root = this.root;
+    root.assertCollectionName(name);
+
+    const db = new UltraVectorDB(options.M, options.efConstruction, options);
+    const key = root.nextCollectionKey++;
+    root.collectionOptions.set(key, options);
+    const entry: CollectionEntry = {
+      op: 'createCollection',
+      collection: key,
+      name,
+      settings: persistableSettings(options, db.dimensions)
+    };
+    root.applyCollectionOp(root.wal ? await root.wal.append(entry) : entry, db);
+    return db;
+  }
+
+  public listCollections(): CollectionInfo[] {
+    const root = this.root;
+    return [root, ...root.collections.values()].map(db => ({
+      name: db.collectionName,
+      chunks: db.dataStore.size,
+      dimensions: db.dimensions,
+      index: db.indexKind,
+      metric: db.metric.name
+    }));
+  }
+
+  /**
+   * Delete a named collection and all its chunks. Its instance rejects
+   * further writes. Returns false if the name was unknown.
+   */
+  public async dropCollection(name: string): Promise<boolean> {
+    const root = this.root;
+    if (name === DEFAULT_COLLECTION) throw new Error(`The "${DEFAULT_COLLECTION}" collection cannot be dropped`);
+
+    const db = root.collections.get(name);
+    if (!db) return false;
+    const entry: CollectionEntry = { op: 'dropCollection', collection: db.collectionKey };
+    root.applyCollectionOp(root.wal ? await root.wal.append(entry) : entry);
+    return true;
+  }
+
+  public async renameCollection(from: string, to: string): Promise<void> {
+    const root = this.root;
+    if (from === DEFAULT_COLLECTION) throw new Error(`The "${DEFAULT_COLLECTION}" collection cannot be renamed`);
+    const db = root.collection(from);
+    root.assertCollectionName(to);
+
+    const entry: CollectionEntry = { op: 'renameCollection', collection: db.collectionKey, name: to };
+    root.applyCollectionOp(root.wal ? await root.wal.append(entry) : entry);
+  }
+
+  /**
+   * Search several collections with one query and merge the results by
+   * weighted score. Each collection embeds the query with its own embedder;
+   * scores under different metrics are not directly comparable, which the
+   * weights can compensate for. Results carry their `collection`.
+   */
+  public async searchCollections(query: string, options: CollectionSearchOptions = {}): Promise<SearchResult[]> {
+    const root = this.root;
+    const { collections, ...searchOptions } = options;
+    const weights: [string, number][] = !collections
+      ? root.listCollections().map(info => [info.name, 1])
+      : Array.isArray(collections)
+        ? collections.map(name => [name, 1])
+        : Object.entries(collections);
+
+    // accesses are recorded once the merged top-k is known, on one clock
+    const memory = resolveMemoryRanking(searchOptions.memory);
+    if (memory) searchOptions.memory = { ...memory, recordAccess: false };
+
+    const merged: SearchResult[] = [];
+    for (const [name, weight] of weights) {
+      const db = root.collection(name);
+      if (weight === 0) continue;
+      for (const result of await db.ultraSearch(query, searchOptions)) {
+        merged.push({ ...result, score: result.score * weight, collection: name });
+      }
+    }
+
+    const top = merged.sort((a, b) => b.score - a.score).slice(0, searchOptions.limit ?? DEFAULT_LIMIT);
+    if (memory) {
+      for (const [name] of weights) {
+        await root.collection(name).recordAccess(memory, top.filter(result => result.collection === name));
+      }
+    }
+    return top;
+  }
+
+  private assertCollectionName(name: string): void {
+    if (!name.trim()) throw new Error('Collection names must not be empty');
+    if (name === DEFAULT_COLLECTION || this.collections.has(name)) {
+      throw new Error(`Collection "${name}" already exists`);
+    }
+  }
+
+  private collectionByKey(key: number): UltraVectorDB | undefined {
+    if (key === 0) return this;
+    for (const db of this.collections.values()) if (db.collectionKey === key) return db;
+    return undefined;
+  }
+
+  /**
+   * Apply a collection create / drop / rename on the root.
+   *
+   * @param created the instance `createCollection` already built and validated
+   */
+  private applyCollectionOp(entry: CollectionEntry, created?: UltraVectorDB): void {
+    if ('seq' in entry) this.markApplied(entry.seq);
+
+    switch (entry.op) {
+      case 'createCollection': {
+        const options = { ...entry.settings, ...this.collectionOptions.get(entry.collection) } as CollectionOptions;
+        const db = created ?? new UltraVectorDB(options.M, options.efConstruction, options);
+        this.attachCollection(db, entry.collection, entry.name, entry.settings);
+        break;
+      }
+      case 'dropCollection': {
+        const db = this.collectionByKey(entry.collection);
+        if (!db || db === this) break;
+        this.collections.delete(db.collectionName);
+        this.collectionOptions.delete(entry.collection);
+        db.dropped = true;
+        db.wal = null;
+        db.clear();
+        break;
+      }
+      case 'renameCollection': {
+        const db = this.collectionByKey(entry.collection);
+        if (!db || db === this) break;
+        this.collections.delete(db.collectionName);
+        db.collectionName = entry.name;
+        this.collections.set(entry.name, db);
+        break;
+      }
+    }
+  }
+
+  private attachCollection(db: UltraVectorDB, key: number, name: string, settings: CollectionOptions): void {
+    db.root = this;
+    db.collectionKey = key;
+    db.collectionName = name;
+    db.settings = settings;
+    db.wal = this.wal;
+    this.collections.set(name, db);
+    this.nextCollectionKey = Math.max(this.nextCollectionKey, key + 1);
+  }
+
+  public async ultraSearch(query: string, options: number | SearchOptions = 5): Promise<SearchResult[]> {
     if (!query.trim() || this.dataStore.size === 0) return [];
 
-    const { matryoshka: qMat } = this.matryoshkaGen.generateAll(query);
-    const queryFull = qMat.full;
-    const queryMedium = qMat.medium;
-    const queryNano = qMat.nano;
+    const { matryoshka, colbert } = await this.embedder.embed(query);
+    return this.search(matryoshka, colbert, this.resolveOptions(options), query);
+  }
+
+  /**
+   * Search with a precomputed `full` query vector. There is no query text, so
+   * the ColBERT stage is skipped and ranking uses the full-vector similarity alone.
+   */
+  public async searchByVector(vector: Float32Array, options: number | SearchOptions = 5): Promise<SearchResult[]> {
+    this.assertDimensions(vector, 'query vector');
+    if (this.dataStore.size === 0) return [];
+
+    const matryoshka = deriveMatryoshka(vector, this.embedder.binaryThreshold);
+    return this.search(matryoshka, null, this.resolveOptions(options));
+  }
+
+  private resolveOptions(options: number | SearchOptions): SearchOptions {
+    return typeof options === 'number' ? { limit: options } : options;
+  }
+
+  private assertDimensions(vector: Float32Array, label: string): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(
+        `Dimension mismatch for ${label}: expected ${this.dimensions}, got ${vector.length}`
+      );
+    }
+  }
+
+  private async search(
+    qMat: MatryoshkaEmbeddings,
+    qColbert: ColbertData | null,
+    options: SearchOptions,
+    text?: string
+  ): Promise<SearchResult[]> {
+    const search = this.prepareSearch(qMat, qColbert, options, text);
+    const results = this.rankCandidates(search, this.searchCandidates(search));
+    if (search.memory) await this.recordAccess(search.memory, results);
+    return results;
+  }
+
+  /**
+   * Run many text queries with the same options. The queries are embedded with
+   * one `embedBatch` call; with `workers > 1` the stage-1 binary scans and the
+   * ColBERT scoring run on worker threads, which read the binary codes and the
+   * packed token vectors from shared memory. Results are in query order and
+   * match what `ultraSearch` returns for each query.
+   */
+  public async searchBatch(queries: string[], options: BatchSearchOptions = {}): Promise<SearchResult[][]> {
+    const results: SearchResult[][] = queries.map(() => []);
+    const live = queries.flatMap((query, i) => (query.trim() ? [i] : []));
+    if (live.length === 0 || this.dataStore.size === 0) return results;
+
+    const { workers = 0, ...searchOptions } = options;
+    const embedded = await this.embedder.embedBatch(live.map(i => queries[i]));
+    const searches = embedded.map((e, i) =>
+      this.prepareSearch(e.matryoshka, e.colbert, searchOptions, queries[live[i]])
+    );
+
+    const pool = workers > 1 ? new WorkerPool(workers) : null;
+    try {
+      const binaryHits = pool ? await this.binaryCandidatesBatch(searches, pool) : [];
+      const candidates = searches.map((search, i) => this.searchCandidates(search, binaryHits[i]));
+      const colbertScores = pool ? await this.colbertScoresBatch(searches, candidates, pool) : [];
+      searches.forEach((search, i) => {
+        results[live[i]] = this.rankCandidates(search, candidates[i], colbertScores[i]);
+      });
+    } finally {
+      await pool?.close();
+    }
+
+    for (let i = 0; i < searches.length; i++) {
+      const memory = searches[i].memory;
+      if (memory) await this.recordAccess(memory, results[live[i]]);
+    }
+
+    return results;
+  }
+
+  /** Options, plan and per-query scoring state, shared by the phases of a search. */
+  private prepareSearch(
+    qMat: MatryoshkaEmbeddings,
+    qColbert: ColbertData | null,
+    options: SearchOptions,
+    text?: string
+  ): PreparedSearch {
+    const stages = { ...DEFAULT_STAGES, ...options.stages };
+
+    const memory = resolveMemoryRanking(options.memory);
+    const now = memory ? memory.now : Date.now();
+
+    // Metadata filter and expiry are pushed into candidate generation, so selective
+    // filters and expired chunks still yield `limit` results instead of being applied after truncation.
+    let predicate: ((metadata: UltraMetadata) => boolean) | null = null;
+    let plan: SearchPlan = { strategy: 'graph', indexesUsed: [], estimatedMatches: null, selectivity: null };
+    let indexedIds: Set<string> | null = null;
+
+    if (options.filter) {
+      predicate = compileFilter(options.filter);
+      this.schema?.validateFilter(options.filter);
+      ({ plan, indexedIds } = this.planFilter(options.filter));
+    }
+    options.onPlan?.(plan);
+    const accept = (id: string) => {
+      const chunk = this.dataStore.get(id);
+      return !!chunk && !isExpired(chunk, now) && (!predicate || predicate(chunk.metadata));
+    };
+
+    const hybrid = options.hybrid && text
+      ? { ...DEFAULT_HYBRID, ...(options.hybrid === true ? {} : options.hybrid) }
+      : null;
+
+    return {
+      mat: qMat,
+      colbert: qColbert,
+      options,
+      limit: options.limit ?? DEFAULT_LIMIT,
+      stages,
+      weights: { ...DEFAULT_WEIGHTS, ...options.weights },
+      useColbert: stages.colbert && qColbert !== null,
+      tierQuery: this.prepareTierQuery(qMat),
+      accept,
+      plan,
+      indexedIds,
+      hybrid,
+      lexical: hybrid ? this.lexicalIndex.search(text!, hybrid.candidates, accept) : null,
+      vectorCandidates: null,
+      memory,
+      now
+    };
+  }
+
+  /** Whether `searchCandidates` runs the stage-1 binary scan for this search. */
+  private runsBinaryStage(search: PreparedSearch): boolean {
+    const bruteForce = search.plan.strategy === 'bruteForce' && !!search.indexedIds;
+    return search.stages.binary && !bruteForce;
+  }
 
-    // Stage 1: binary pre-filter
-    const binaryCandidates = this.getBinaryCandidates(queryNano, 500);
-    console.log(`- Stage 1: Binary filter reduced candidates to ${binaryCandidates.length}`);
+  /**
+   * Candidate generation: brute force over an index-narrowed id set, an
+   * exhaustive scan, or the union of the stage-1 cascade, the stage-2 index
+   * and (when enabled) the late-interaction index.
+   *
+   * @param binaryHits stage-1 scan results computed elsewhere (see `searchBatch`)
+   */
+  private searchCandidates(search: PreparedSearch, binaryHits?: string[]): string[] {
+    const { stages, options, accept, plan, indexedIds, limit, tierQuery } = search;
+    const tokenStage = stages.lateInteraction && !!search.colbert && !!this.lateInteraction.search;
+    let finalCandidates: string[];
 
-    // Stage 2: HNSW search
-    const hnswCandidates = this.hnsw.search(queryMedium, 50, 0);
-    console.log(`- Stage 2: HNSW search identified ${hnswCandidates.length} potential matches`);
+    if (plan.strategy === 'bruteForce' && indexedIds) {
+      // indexes bounded the match set tightly: score every match exactly
+      finalCandidates = Array.from(indexedIds).filter(accept);
+      this.log(`- Planner: brute-force scoring ${finalCandidates.length} indexed matches`);
+    } else if (!stages.binary && !stages.hnsw && !tokenStage) {
+      // no candidate generator enabled: exhaustive scan
+      finalCandidates = Array.from(this.dataStore.keys()).filter(accept);
+      this.log(`- Exhaustive scan over ${finalCandidates.length} chunks`);
+    } else {
+      let binaryCandidates: string[] = [];
+      let hnswCandidates: string[] = [];
+      let tokenCandidates: string[] = [];
 
-    const finalCandidates = [...new Set([...binaryCandidates, ...hnswCandidates])];
+      // Stage 1: binary-code pre-filter, then a coarse-to-fine cascade over the float tiers
+      if (stages.binary) {
+        binaryCandidates =
+          binaryHits ?? this.getBinaryCandidates(tierQuery.code, options.binaryCandidates ?? 500, accept);
+        this.log(`- Stage 1: Binary filter reduced candidates to ${binaryCandidates.length}`);
+        binaryCandidates = this.refineCandidates(tierQuery, binaryCandidates, stages, options, limit);
+      }
+
+      // Stage 2: ANN index search (HNSW by default)
+      if (stages.hnsw) {
+        // codes steer the traversal; exact floats (when kept) fix the final order
+        const exact = tierQuery.medium && this.quantization.exactRerank
+          ? (id: string) => this.dataStore.get(id)?.matryoshka.medium
+          : undefined;
+        const index = this.vectorIndex;
+        const k = options.ef ?? 50;
+        hnswCandidates = index instanceof IVFIndex
+          ? index.search(search.mat.medium, k, accept, exact, options.nprobe)
+          : index.search(search.mat.medium, k, accept, exact);
+        this.log(`- Stage 2: ${index.kind.toUpperCase()} search identified ${hnswCandidates.length} potential matches`);
+      }
+
+      // Stage 2b: MaxSim candidates straight from the token index
+      if (tokenStage) {
+        const k = options.tokenCandidates ?? 50;
+        tokenCandidates = this.lateInteraction.search!(search.colbert!, k, accept);
+        this.log(`- Stage 2b: late interaction identified ${tokenCandidates.length} potential matches`);
+      }
+
+      finalCandidates = [...new Set([...binaryCandidates, ...hnswCandidates, ...tokenCandidates])];
+    }
+
+    // Hybrid: BM25 hits join the candidates so exact-term matches get ranked too
+    if (search.lexical) {
+      search.vectorCandidates = new Set(finalCandidates);
+      this.log(`- BM25 matched ${search.lexical.length} chunks`);
+      finalCandidates = [...new Set([...finalCandidates, ...search.lexical.map(hit => hit.id)])];
+    }
 
+    return finalCandidates;
+  }
+
+  /**
+   * Stages 3 and 4 over the candidates, best first.
+   *
+   * @param colbertScores ColBERT scores aligned with `candidates`, when computed elsewhere
+   */
+  private rankCandidates(search: PreparedSearch, candidates: string[], colbertScores?: Float64Array): SearchResult[] {
+    const { options, stages, weights, useColbert, tierQuery } = search;
     const results: SearchResult[] = [];
 
-    for (const id of finalCandidates) {
+    candidates.forEach((id, i) => {
       const chunk = this.dataStore.get(id);
-      if (!chunk) continue;
-
-      const colbertScore = this.colbert.score(query, chunk.colbert);
-      const fullScore = cosineSimilarity(queryFull, chunk.matryoshka.full);
-      const combined = colbertScore * 0.6 + fullScore * 0.4;
-
-      results.push({
-        chunk,
-        score: combined,
-        breakdown: {
-          binary: this.nanoHammingDistance(queryNano, chunk.matryoshka.nano),
-          hnsw: 0,
-          colbert: colbertScore,
-          final: fullScore
+      if (!chunk || isExpired(chunk, search.now)) return;
+
+      // Stages 3 & 4: ColBERT token scoring + full-vector rerank
+      let colbertScore = 0;
+      if (useColbert) {
+        colbertScore = colbertScores ? colbertScores[i] : this.lateInteraction.score(search.colbert!, chunk.colbert);
+      }
+      const tiers = this.tierScores(tierQuery, chunk, stages.rerank);
+
+      const breakdown: SearchBreakdown = {
+        binary: this.binaryCodes.distance(tierQuery.code, id),
+        hnsw: tiers.medium,
+        colbert: colbertScore,
+        final: tiers.full,
+        tiers
+      };
+
+      const score = options.scorer
+        ? options.scorer(breakdown, chunk)
+        : this.blendScores(breakdown, useColbert, stages.rerank, weights);
+
+      results.push({ chunk, score, breakdown });
+    });
+
+    results.sort((a, b) => b.score - a.score);
+    if (search.hybrid) this.fuseLexical(search, results);
+    if (search.memory) this.rankByMemory(search.memory, results);
+    const selected = this.diversify(search, results);
+    if (options.contextChunks) {
+      for (const result of selected) this.attachContext(result, options.contextChunks, search.now);
+    }
+    return selected;
+  }
+
+  /** Set `result.context` to the chunks up to `count` positions away in the same document. */
+  private attachContext(result: SearchResult, count: number, now: number): void {
+    const { docId, chunkIndex } = result.chunk.metadata;
+    const chunks = docId === undefined ? undefined : this.documents.get(docId);
+    if (!chunks || chunkIndex === undefined) return;
+
+    const at = (i: number) => {
+      const chunk = this.dataStore.get(chunks.get(i) ?? '');
+      return chunk && !isExpired(chunk, now) ? [chunk] : [];
+    };
+    const before: UltraChunk[] = [];
+    const after: UltraChunk[] = [];
+    for (let i = chunkIndex - count; i < chunkIndex; i++) before.push(...at(i));
+    for (let i = chunkIndex + 1; i <= chunkIndex + count; i++) after.push(...at(i));
+    result.context = { before, after };
+  }
+
+  /**
+   * Blend each result's score (the semantic relevance, min-max scaled over the
+   * candidates like MMR's, since RRF or weighted scores are far below 1) with
+   * recency, importance and access frequency, record every factor's
+   * contribution in `breakdown.memory`, then re-sort in place.
+   */
+  private rankByMemory(memory: MemoryRanking, results: SearchResult[]): void {
+    const w = memory.weights;
+    const total = w.semantic + w.recency + w.importance + w.frequency || 1;
+    const relevance = minMaxNormalize(results.map(r => r.score));
+
+    results.forEach((result, i) => {
+      const { importance, created, lastAccessed, accessCount = 0 } = result.chunk.metadata;
+      const seen = lastAccessed ?? created;
+      const age = seen === undefined ? Infinity : Math.max(0, memory.now - seen);
+
+      const contributions: MemoryScores = {
+        semantic: (w.semantic * relevance[i]) / total,
+        recency: (w.recency * Math.pow(0.5, age / memory.halfLifeMs)) / total,
+        importance: (w.importance * Math.min(1, Math.max(0, (importance ?? 0) / memory.maxImportance))) / total,
+        frequency: (w.frequency * accessCount) / (accessCount + memory.frequencyMidpoint) / total
+      };
+      result.breakdown.memory = contributions;
+      result.score =
+        contributions.semantic + contributions.recency + contributions.importance + contributions.frequency;
+    });
+
+    results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Stamp `lastAccessed` and increment `accessCount` on the returned chunks,
+   * in one log write. The results' breakdowns keep the values they were ranked with.
+   */
+  private async recordAccess(memory: MemoryRanking, results: SearchResult[]): Promise<void> {
+    if (!memory.recordAccess || results.length === 0 || this.dropped) return;
+
+    await this.commitEntries(
+      results.map(({ chunk }): ChunkEntry => ({
+        op: 'updateMetadata',
+        id: chunk.id,
+        metadata: { ...chunk.metadata, lastAccessed: memory.now, accessCount: (chunk.metadata.accessCount ?? 0) + 1 }
+      }))
+    );
+  }
+
+  /**
+   * Final selection from the ranked `results`: collapse near-duplicates, then
+   * (optionally) reorder by MMR, and cut to `limit`.
+   */
+  private diversify(search: PreparedSearch, results: SearchResult[]): SearchResult[] {
+    const { options, limit } = search;
+    const mmr: MMROptions | null = options.mmr ? (options.mmr === true ? {} : options.mmr) : null;
+    const pool = mmr ? Math.max(limit, mmr.candidates ?? limit * 4) : limit;
+
+    const kept = options.dedupe === undefined
+      ? results.slice(0, pool)
+      : this.collapseDuplicates(results, options.dedupe, pool);
+    if (!mmr) return kept.slice(0, limit);
+
+    const lambda = mmr.lambda ?? DEFAULT_MMR_LAMBDA;
+    const vectors = kept.map(r => r.chunk.matryoshka.full); // decoded once when quantized
+    const relevance = minMaxNormalize(kept.map(r => r.score));
+    const maxSimilarity = new Float64Array(kept.length).fill(-Infinity);
+    const picked = new Uint8Array(kept.length);
+    const selected: SearchResult[] = [];
+
+    while (selected.length < Math.min(limit, kept.length)) {
+      let best = -1;
+      let bestValue = -Infinity;
+      for (let i = 0; i < kept.length; i++) {
+        if (picked[i]) continue;
+        const novelty = selected.length ? maxSimilarity[i] : 0;
+        const value = lambda * relevance[i] - (1 - lambda) * novelty;
+        if (value > bestValue) {
+          bestValue = value;
+          best = i;
         }
-      });
+      }
+
+      picked[best] = 1;
+      selected.push(kept[best]);
+      for (let i = 0; i < kept.length; i++) {
+        if (picked[i]) continue;
+        const sim = cosineSimilarity(vectors[best], vectors[i]);
+        if (sim > maxSimilarity[i]) maxSimilarity[i] = sim;
+      }
     }
 
-    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    return selected;
   }
 
-  private getBinaryCandidates(queryNano: Uint32Array, limit: number): string[] {
-    if (this.dataStore.size === 0) return [];
-    const scored: { id: string; distance: number }[] = [];
+  /**
+   * Walk the ranked results, keeping a result unless its `full` vector is
+   * within `threshold` cosine of one already kept; such duplicates are
+   * recorded on the kept result. Stops keeping once `count` are kept, but
+   * still collapses later duplicates into them.
+   */
+  private collapseDuplicates(results: SearchResult[], threshold: number, count: number): SearchResult[] {
+    const kept: SearchResult[] = [];
+    const keptVectors: Float32Array[] = [];
+    for (const result of results) {
+      const vector = result.chunk.matryoshka.full;
+      const original = keptVectors.findIndex(v => cosineSimilarity(vector, v) >= threshold);
+      if (original >= 0) {
+        const duplicates = kept[original].duplicates ?? (kept[original].duplicates = []);
+        duplicates.push(result.chunk.id);
+      } else if (kept.length < count) {
+        kept.push(result);
+        keptVectors.push(vector);
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Replace each result's score with its fusion of the vector ranking
+   * (`results`, best first) and the BM25 ranking, then re-sort in place. RRF
+   * ranks only the vector candidates on the vector side; a chunk found by
+   * BM25 alone gets no vector term.
+   */
+  private fuseLexical(search: PreparedSearch, results: SearchResult[]): void {
+    const hybrid = search.hybrid!;
+    const lexical = search.lexical!;
+    const bm25 = new Map(lexical.map(hit => [hit.id, hit.score]));
+    for (const result of results) result.breakdown.bm25 = bm25.get(result.chunk.id) ?? 0;
 
-    for (const [id, chunk] of this.dataStore.entries()) {
-      const d = this.nanoHammingDistance(queryNano, chunk.matryoshka.nano);
-      scored.push({ id, distance: d });
+    if (hybrid.fusion === 'rrf') {
+      const lexicalRank = new Map(lexical.map((hit, i) => [hit.id, i + 1]));
+      const vectorCandidates = search.vectorCandidates;
+      let vectorRank = 0;
+      for (const result of results) {
+        const inVector = !vectorCandidates || vectorCandidates.has(result.chunk.id);
+        const rank = lexicalRank.get(result.chunk.id);
+        result.score = (inVector ? 1 / (hybrid.rrfK + ++vectorRank) : 0) + (rank ? 1 / (hybrid.rrfK + rank) : 0);
+      }
+    } else {
+      const vector = minMaxNormalize(results.map(r => r.score));
+      const lexicalScores = minMaxNormalize(results.map(r => r.breakdown.bm25!));
+      const w = hybrid.lexicalWeight;
+      results.forEach((result, i) => (result.score = (1 - w) * vector[i] + w * lexicalScores[i]));
     }
 
-    scored.sort((a, b) => a.distance - b.distance);
-    return scored.slice(0, Math.min(limit, scored.length)).map(s => s.id);
+    results.sort((a, b) => b.score - a.score);
   }
 
-  private nanoHammingDistance(a: Uint32Array, b: Uint32Array): number {
-    const va = a[0] ?? 0;
-    const vb = b[0] ?? 0;
-    let x = va ^ vb;
-    let count = 0;
-    while (x) {
-      x &= x - 1;
-      count++;
+  /** Stage-1 scans for every search that runs one, split across `pool`; aligned with `searches`. */
+  private async binaryCandidatesBatch(searches: PreparedSearch[], pool: WorkerPool): Promise<(string[] | undefined)[]> {
+    const scanned = searches.flatMap((search, i) => (this.runsBinaryStage(search) ? [i] : []));
+    const hits: (string[] | undefined)[] = searches.map(() => undefined);
+    if (scanned.length === 0 || this.binaryCodes.size === 0) return hits;
+
+    // every search shares the batch options, so one filter applies to all
+    const first = searches[scanned[0]];
+    const nearest = await this.binaryCodes.nearestBatch(
+      scanned.map(i => searches[i].tierQuery.code),
+      first.options.binaryCandidates ?? 500,
+      pool,
+      first.accept
+    );
+    // a chunk deleted while the workers ran is dropped
+    scanned.forEach((s, i) => (hits[s] = nearest[i].map(c => c.id).filter(id => this.dataStore.has(id))));
+    return hits;
+  }
+
+  /**
+   * ColBERT scores for every search that uses them, aligned with each search's
+   * candidates. Token vectors of the union of candidates are packed once into
+   * shared buffers, each query carries its `ColbertIndex` token weights, and
+   * the queries are split across `pool`.
+   */
+  private async colbertScoresBatch(
+    searches: PreparedSearch[],
+    candidates: string[][],
+    pool: WorkerPool
+  ): Promise<(Float64Array | undefined)[]> {
+    // the kernel replicates ColbertIndex; custom scorers stay on the main thread
+    const scorer = this.lateInteraction;
+    if (!(scorer instanceof ColbertIndex)) return [];
+
+    const scored = searches.flatMap((search, i) => (search.useColbert ? [i] : []));
+    if (scored.length === 0) return [];
+
+    const docIndex = new Map<string, number>();
+    const docs: ColbertData[] = [];
+    const pairOffsets = sharedInt32Array(scored.length + 1);
+    const pairList: number[] = [];
+    scored.forEach((s, q) => {
+      for (const id of candidates[s]) {
+        const chunk = this.dataStore.get(id);
+        let doc = docIndex.get(id);
+        if (doc === undefined) {
+          doc = docs.length;
+          docIndex.set(id, doc);
+          // an untokenized chunk scores 0, as in ColbertIndex.score
+          docs.push(chunk?.colbert.tokens.length ? chunk.colbert : EMPTY_COLBERT);
+        }
+        pairList.push(doc);
+      }
+      pairOffsets[q + 1] = pairList.length;
+    });
+
+    const pairs = sharedInt32Array(pairList.length);
+    pairs.set(pairList);
+    const packedQueries = packTokens(scored.map(s => {
+      const query = searches[s].colbert!;
+      return { ...query, importance: scorer.queryWeights(query) };
+    }));
+    const packedDocs = packTokens(docs);
+
+    const parts = await pool.runSplit('colbert', scored.length, (from, to) => ({
+      queries: packedQueries,
+      docs: packedDocs,
+      pairOffsets,
+      pairs,
+      from,
+      to
+    }));
+
+    const all = new Float64Array(pairList.length);
+    let offset = 0;
+    for (const part of parts) {
+      all.set(part.scores, offset);
+      offset += part.scores.length;
+    }
+
+    const scores: (Float64Array | undefined)[] = searches.map(() => undefined);
+    scored.forEach((s, q) => (scores[s] = all.subarray(pairOffsets[q], pairOffsets[q + 1])));
+    return scores;
+  }
+
+  /**
+   * Weighted mean over the scoring stages that actually ran, so disabling one
+   * stage (or searching by vector, where ColBERT cannot run) keeps scores in range.
+   */
+  private blendScores(
+    breakdown: SearchBreakdown,
+    useColbert: boolean,
+    useRerank: boolean,
+    weights: Required<ScoreWeights>
+  ): number {
+    let total = 0;
+    let weightSum = 0;
+    if (useColbert) {
+      total += breakdown.colbert * weights.colbert;
+      weightSum += weights.colbert;
+    }
+    if (useRerank) {
+      total += breakdown.final * weights.full;
+      weightSum += weights.full;
+    }
+    return weightSum > 0 ? total / weightSum : 0;
+  }
+
+  /**
+   * Choose between brute-force scoring of the index-narrowed id set and a
+   * filtered graph search, based on how many ids the indexes let through.
+   */
+  private planFilter(filter: MetadataFilter): { plan: SearchPlan; indexedIds: Set<string> | null } {
+    const indexesUsed = [...new Set(filterFields(filter))].filter(field => this.indexes.has(field));
+    const indexedIds = indexesUsed.length ? candidateIdsFromIndexes(filter, this.indexes) : null;
+
+    if (!indexedIds) {
+      return {
+        plan: { strategy: 'filteredGraph', indexesUsed, estimatedMatches: null, selectivity: null },
+        indexedIds
+      };
+    }
+
+    return {
+      plan: {
+        strategy: indexedIds.size <= this.bruteForceLimit ? 'bruteForce' : 'filteredGraph',
+        indexesUsed,
+        estimatedMatches: indexedIds.size,
+        selectivity: this.dataStore.size ? indexedIds.size / this.dataStore.size : 0
+      },
+      indexedIds
+    };
+  }
+
+  /**
+   * Declare a secondary index on a metadata field: `hash` for categorical
+   * fields like `type`, `sorted` for numeric ones like `importance` or `created`.
+   */
+  public createIndex(field: string, kind: MetadataIndexKind): void {
+    this.schema?.assertField(field, 'Metadata index');
+    const index = createMetadataIndex({ field, kind });
+    for (const chunk of this.dataStore.values()) {
+      index.add(chunk.id, chunk.metadata[field]);
+    }
+    this.indexes.set(field, index);
+  }
+
+  public dropIndex(field: string): boolean {
+    return this.indexes.delete(field);
+  }
+
+  public listIndexes(): MetadataIndexSpec[] {
+    return Array.from(this.indexes.values(), index => ({ field: index.field, kind: index.kind }));
+  }
+
+  private indexChunk(chunk: UltraChunk): void {
+    for (const index of this.indexes.values()) {
+      index.add(chunk.id, chunk.metadata[index.field]);
+    }
+
+    const { docId, chunkIndex } = chunk.metadata;
+    if (docId === undefined || chunkIndex === undefined) return;
+    let chunks = this.documents.get(docId);
+    if (!chunks) this.documents.set(docId, (chunks = new Map()));
+    chunks.set(chunkIndex, chunk.id);
+  }
+
+  private unindexChunk(chunk: UltraChunk): void {
+    for (const index of this.indexes.values()) {
+      index.remove(chunk.id, chunk.metadata[index.field]);
+    }
+
+    const { docId, chunkIndex } = chunk.metadata;
+    const chunks = docId === undefined ? undefined : this.documents.get(docId);
+    if (!chunks || chunkIndex === undefined || chunks.get(chunkIndex) !== chunk.id) return;
+    chunks.delete(chunkIndex);
+    if (chunks.size === 0) this.documents.delete(docId!);
+  }
+
+  private getBinaryCandidates(
+    query: Uint32Array,
+    limit: number,
+    accept?: (id: string) => boolean
+  ): string[] {
+    if (this.binaryCodes.size === 0) return [];
+    return this.binaryCodes.nearest(query, limit, accept).map(c => c.id);
+  }
+
+  /**
+   * Re-fit median thresholds (when configured) from the current collection
+   * and re-encode every binary code.
+   */
+  public retrainBinaryCodes(): void {
+    this.binaryCodes.fit(
+      Array.from(this.dataStore.values(), c => c.matryoshka.full),
+      id => this.dataStore.get(id)!.matryoshka.full
+    );
+    this.binaryCodesFitted = true;
+  }
+
+  /**
+   * Prune stage-1 survivors tier by tier: small, then medium cosine. Each enabled step keeps `keepRatios[tier]` of its input, never
+   * fewer than `limit`, so later (more expensive) tiers see fewer vectors.
+   */
+  private refineCandidates(
+    q: TierQuery,
+    candidates: string[],
+    stages: Required<SearchStages>,
+    options: SearchOptions,
+    limit: number
+  ): string[] {
+    const ratios = { ...DEFAULT_KEEP_RATIOS, ...options.keepRatios };
+
+    const steps: [keyof CascadeKeepRatios, (chunk: UltraChunk) => number][] = [
+      ['small', chunk => cosineSimilarity(q.mat.small, chunk.matryoshka.small)],
+      ['medium', chunk => this.mediumScore(q, chunk)]
+    ];
+
+    let survivors = candidates;
+    for (const [tier, score] of steps) {
+      if (!stages[tier]) continue;
+
+      const keep = Math.max(limit, Math.ceil(survivors.length * ratios[tier]));
+      if (keep >= survivors.length) continue;
+
+      survivors = survivors
+        .map(id => ({ id, score: score(this.dataStore.get(id)!) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, keep)
+        .map(s => s.id);
+      this.log(`  - ${tier} tier kept ${survivors.length} candidates`);
+    }
+
+    return survivors;
+  }
+
+  private tierScores(q: TierQuery, chunk: UltraChunk, includeFull: boolean): TierScores {
+    const m = chunk.matryoshka;
+    return {
+      nano: this.nanoHammingDistance(q.mat.nano, m.nano),
+      tiny: this.tinyHammingDistance(q.mat.tiny, m.tiny),
+      small: cosineSimilarity(q.mat.small, m.small),
+      medium: this.mediumScore(q, chunk),
+      full: includeFull ? this.fullScore(q, chunk) : 0
+    };
+  }
+
+  /**
+   * Per-query state for scoring quantized tiers and binary codes: ADC tables
+   * and the query's code are built once here rather than per candidate.
+   */
+  private prepareTierQuery(mat: MatryoshkaEmbeddings): TierQuery {
+    const trained = this.quantizersTrained;
+    return {
+      mat,
+      code: this.binaryCodes.encode(mat.full),
+      full: trained && this.fullStore && !this.quantization.exactRerank ? this.fullStore.prepare(mat.full) : null,
+      medium: trained && this.mediumStore ? this.mediumStore.prepare(mat.medium) : null
+    };
+  }
+
+  /** Full-tier similarity under the configured metric. */
+  private fullScore(q: TierQuery, chunk: UltraChunk): number {
+    const metric = this.metric;
+    if (q.full && metric.fromDot) {
+      const store = this.fullStore!;
+      return similarityOf(metric, metric.fromDot(store.dot(q.full, chunk.id), q.full.norm, store.norm(chunk.id)));
     }
-    return count;
+    return similarityOf(metric, metric.distance(q.mat.full, chunk.matryoshka.full));
+  }
+
+  private mediumScore(q: TierQuery, chunk: UltraChunk): number {
+    return q.medium
+      ? this.mediumStore!.cosine(q.medium, chunk.id)
+      : cosineSimilarity(q.mat.medium, chunk.matryoshka.medium);
+  }
+
+  private tinyHammingDistance(a: Uint8Array, b: Uint8Array): number {
+    return hammingDistance(a, b);
+  }
+
+  private nanoHammingDistance(a: Uint32Array, b: Uint32Array): number {
+    return popcount32(((a[0] ?? 0) ^ (b[0] ?? 0)) >>> 0);
   }
 
+  /**
+   * Chunk count plus approximate bytes held by each embedding tier
+   * (quantized tiers report their code storage).
+   */
   public getStats() {
-    return { chunks: this.dataStore.size };
+    const memory = { full: 0, medium: 0, small: 0, tiny: 0, nano: 0, binaryCodes: this.binaryCodes.byteLength };
+    const fullQuantized = this.quantizersTrained && !!this.fullStore;
+    const mediumQuantized = this.quantizersTrained && !!this.mediumStore;
+    const fullReleased = fullQuantized && !this.quantization.exactRerank;
+
+    for (const chunk of this.dataStore.values()) {
+      const m = chunk.matryoshka;
+      const fullBuffer = fullReleased ? null : m.full.buffer;
+      if (!fullReleased) memory.full += m.full.byteLength;
+      if (!mediumQuantized && m.medium.buffer !== fullBuffer) memory.medium += m.medium.byteLength;
+      if (m.small.buffer !== fullBuffer) memory.small += m.small.byteLength;
+      memory.tiny += m.tiny.byteLength;
+      memory.nano += m.nano.byteLength;
+    }
+    if (fullQuantized) memory.full += this.fullStore!.byteLength;
+    if (mediumQuantized) memory.medium += this.mediumStore!.byteLength;
+
+    return { chunks: this.dataStore.size, memory };
   }
 
   public clear(): void {
     this.dataStore.clear();
-    this.hnsw = new HNSWGraph(this.M, this.efConstruction);
+    this.documents.clear();
+    this.binaryCodes.clear();
+    this.binaryCodesFitted = false;
+    this.lateInteraction.clear();
+    this.lexicalIndex.clear();
+    this.resetQuantizedStores();
+    for (const spec of this.listIndexes()) {
+      this.indexes.set(spec.field, createMetadataIndex(spec));
+    }
+    this.vectorIndex = this.newVectorIndex();
   }
+
+  private newVectorIndex(): Index {
+    return createVectorIndex(this.indexKind, {
+      metric: this.metric,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      hnsw: this.hnswOptions,
+      ivf: this.ivfOptions
+    });
+  }
+
+  /**
+   * Write a versioned binary snapshot of every chunk and the stage-2 index
+   * (the exact topology for HNSW, settings for flat and IVF). The file is written to a temp path and renamed into place.
+   * Only this collection is saved; a durable DB keeps all collections (see `compact`).
+   */
+  public async save(path: string): Promise<void> {
+    await this.settleIndexing();
+    await writeFileAtomic(path, this.snapshotBytes(this.appliedSeq));
+  }
+
+  private snapshotBytes(lastSeq: number): Uint8Array {
+    return encodeSnapshot({
+      dimensions: this.dimensions,
+      lastSeq,
+      chunks: Array.from(this.dataStore.values()),
+      index: snapshotIndex(this.vectorIndex),
+      binaryThresholds: this.binaryCodesFitted ? this.binaryCodes.thresholdValues : null,
+      colbertIndex: this.lateInteraction instanceof ColbertIndex ? this.lateInteraction.toSnapshot() : null,
+      quantized: {
+        full: this.quantizersTrained ? this.fullStore?.toSnapshot() ?? null : null,
+        medium: this.quantizersTrained ? this.mediumStore?.toSnapshot() ?? null : null,
+        keepFull: !!this.quantization.exactRerank
+      },
+      indexes: this.listIndexes(),
+      schema: this.schema?.spec ?? null
+    });
+  }
+
+  /**
+   * Restore a DB written by `save()`. An HNSW graph is rebuilt from the stored
+   * topology (not re-inserted) and an IVF index from its stored clustering, so
+   * search results are bit-identical; a flat index is rebuilt from the chunk vectors.
+   * The stored schema applies unless `options.schema` is given, and the stored
+   * metadata indexes come back beside `options.indexes` (which win on a shared field).
+   */
+  public static async load(path: string, options: UltraVectorDBOptions = {}): Promise<UltraVectorDB> {
+    return UltraVectorDB.fromSnapshotBytes(await fs.readFile(path), options);
+  }
+
+  private static fromSnapshotBytes(bytes: Uint8Array, options: UltraVectorDBOptions): UltraVectorDB {
+    const state = decodeSnapshot(bytes);
+
+    const stored = state.index;
+    if (options.index && options.index !== stored.kind) {
+      throw new Error(`Snapshot holds a "${stored.kind}" index but "${options.index}" was requested`);
+    }
+
+    const graph = stored.kind === 'hnsw' ? stored.graph : null;
+    const requested = new Set(options.indexes?.map(spec => spec.field));
+    const db = new UltraVectorDB(graph?.M, graph?.efConstruction, {
+      ...options,
+      schema: options.schema ?? state.schema ?? undefined,
+      indexes: [...state.indexes.filter(spec => !requested.has(spec.field)), ...(options.indexes ?? [])],
+      dimensions: state.dimensions,
+      index: stored.kind,
+      ivf: stored.kind === 'ivf' ? stored.options : options.ivf,
+      metric: restoreMetric(snapshotMetric(stored), options.metric)
+    });
+
+    // stored token centroids are adopted before the chunks come back, so they are not retrained
+    if (state.colbertIndex && db.lateInteraction instanceof ColbertIndex) db.lateInteraction.restore(state.colbertIndex);
+    for (const chunk of state.chunks) {
+      db.dataStore.set(chunk.id, chunk);
+      db.indexChunk(chunk);
+      db.binaryCodes.add(chunk.id, chunk.matryoshka.full);
+      db.lateInteraction.add(chunk.id, chunk.colbert);
+      db.lexicalIndex.add(chunk.id, chunk.content);
+    }
+    // stored thresholds keep the codes (and so stage 1) exactly as saved; refit only if the width changed
+    const thresholds = state.binaryThresholds;
+    if (thresholds && db.binaryCodes.threshold === 'median' && thresholds.length === db.binaryCodes.bits) {
+      db.binaryCodes.setThresholds(thresholds, id => db.dataStore.get(id)!.matryoshka.full);
+      db.binaryCodesFitted = true;
+    }
+    db.maybeFitBinaryCodes();
+    if (!db.restoreQuantizers(state.quantized)) db.maybeTrainQuantizers();
+    db.vectorIndex = restoreIndex(stored, db.dataStore.keys(), id => {
+      const chunk = db.dataStore.get(id);
+      if (!chunk) throw new Error(`Snapshot graph references unknown chunk "${id}"`);
+      return chunk.matryoshka.medium;
+    }, { random: options.hnsw?.random, metric: db.metric });
+    if (db.quantizersTrained && db.mediumStore) db.vectorIndex.useQuantizedVectors?.(db.mediumStore);
+    db.appliedSeq = state.lastSeq;
+
+    return db;
+  }
+
+  /**
+   * Open a durable DB in `directory`: load the last snapshot (if any), replay
+   * the write-ahead log past it, and log every later mutation before applying it.
+   * A record torn by a crash mid-append is dropped. Named collections come
+   * back from the collection manifest, their snapshots and the same log.
+   */
+  public static async open(directory: string, options: OpenOptions = {}): Promise<UltraVectorDB> {
+    await fs.mkdir(directory, { recursive: true });
+
+    const { collections: runtimeOptions = {}, ...rootOptions } = options;
+    let db: UltraVectorDB;
+    const snapshot = await readOptional(join(directory, SNAPSHOT_FILE));
+    db = snapshot
+      ? UltraVectorDB.fromSnapshotBytes(snapshot, rootOptions)
+      : new UltraVectorDB(options.M, options.efConstruction, rootOptions);
+
+    const manifestBytes = await readOptional(join(directory, MANIFEST_FILE));
+    const manifest: CollectionManifest = manifestBytes
+      ? JSON.parse(Buffer.from(manifestBytes).toString('utf8'))
+      : { lastSeq: 0, nextKey: 1, collections: [] };
+
+    const { log, records } = await WriteAheadLog.open(join(directory, WAL_FILE), {
+      sync: options.syncWrites,
+      minSeq: Math.max(db.appliedSeq, manifest.lastSeq)
+    });
+
+    // runtime options are keyed by the name a collection ends up with
+    const names = new Map(manifest.collections.map(c => [c.key, c.name]));
+    for (const record of records) {
+      if (record.op === 'createCollection' || record.op === 'renameCollection') names.set(record.collection, record.name);
+    }
+    for (const [key, name] of names) db.collectionOptions.set(key, runtimeOptions[name] ?? {});
+
+    for (const { key, name, settings } of manifest.collections) {
+      const collectionOptions = { ...settings, ...db.collectionOptions.get(key) } as CollectionOptions;
+      const bytes = await readOptional(join(directory, COLLECTIONS_DIR, `${key}.uvdb`));
+      const collection = bytes
+        ? UltraVectorDB.fromSnapshotBytes(bytes, collectionOptions)
+        : new UltraVectorDB(collectionOptions.M, collectionOptions.efConstruction, collectionOptions);
+      db.attachCollection(collection, key, name, settings);
+    }
+    db.nextCollectionKey = Math.max(db.nextCollectionKey, manifest.nextKey);
+
+    for (const record of records) {
+      if (isCollectionRecord(record)) {
+        if (record.seq > manifest.lastSeq) db.applyCollectionOp(record);
+        continue;
+      }
+      const target = db.collectionByKey(record.collection ?? 0);
+      if (target && record.seq > target.appliedSeq) target.apply(record);
+    }
+
+    db.wal = log;
+    db.directory = directory;
+    for (const collection of db.collections.values()) collection.wal = log;
+    if (options.sweepIntervalMs) db.startSweeper(options.sweepIntervalMs);
+    return db;
+  }
+
+  /**
+   * Fold the write-ahead log into a fresh snapshot, then drop the folded
+   * records from the log. The snapshot records the last folded sequence
+   * number, so a crash between the two steps replays nothing twice, and
+   * writes that land while compacting stay in the log.
+   *
+   * Every collection is snapshotted at the same sequence number, then the
+   * collection manifest is written; a crash part-way leaves the log intact,
+   * and each snapshot skips only the records it already holds.
+   */
+  public async compact(): Promise<void> {
+    if (this.root !== this) return this.root.compact();
+    if (!this.wal || !this.directory) {
+      throw new Error('compact() requires a DB opened with UltraVectorDB.open()');
+    }
+
+    // encode everything synchronously, so all snapshots reflect the log through `seq`
+    await this.settleIndexing();
+    const seq = this.appliedSeq;
+    const collections = Array.from(this.collections.values());
+    const rootBytes = this.snapshotBytes(seq);
+    const collectionBytes = collections.map(db => db.snapshotBytes(seq));
+    const manifest: CollectionManifest = {
+      lastSeq: seq,
+      nextKey: this.nextCollectionKey,
+      collections: collections.map(db => ({ key: db.collectionKey, name: db.collectionName, settings: db.settings }))
+    };
+
+    const collectionsDir = join(this.directory, COLLECTIONS_DIR);
+    await writeFileAtomic(join(this.directory, SNAPSHOT_FILE), rootBytes);
+    if (collections.length > 0) await fs.mkdir(collectionsDir, { recursive: true });
+    for (let i = 0; i < collections.length; i++) {
+      await writeFileAtomic(join(collectionsDir, `${collections[i].collectionKey}.uvdb`), collectionBytes[i]);
+    }
+    await writeFileAtomic(join(this.directory, MANIFEST_FILE), Buffer.from(JSON.stringify(manifest)));
+
+    // snapshots of dropped collections
+    const live = new Set(collections.map(db => `${db.collectionKey}.uvdb`));
+    for (const file of await fs.readdir(collectionsDir).catch(() => [] as string[])) {
+      if (!live.has(file)) await fs.rm(join(collectionsDir, file), { force: true });
+    }
+
+    await this.wal.truncateThrough(seq);
+  }
+
+  /** Flush and close the write-ahead log, shared by all collections. No-op for in-memory DBs. */
+  public async close(): Promise<void> {
+    if (this.root !== this) return this.root.close();
+    this.stopSweeper();
+    await this.sweeping;
+    if (!this.wal) return;
+    await this.wal.close();
+    this.wal = null;
+    for (const collection of this.collections.values()) collection.wal = null;
+  }
+}
+
+/** A `ChunkInput` whose `ttl` has been resolved into `metadata.expiresAt` (see `withExpiry`). */
+type PendingChunk = Omit<ChunkInput, 'ttl'>;
+
+interface TierQuery {
+  mat: MatryoshkaEmbeddings;
+  code: Uint32Array;             // the query's stage-1 binary code
+  full: PreparedQuery | null;    // set when the full tier is scored from codes
+  medium: PreparedQuery | null;  // set when the medium tier is scored from codes
+}
+
+interface PreparedSearch {
+  mat: MatryoshkaEmbeddings;
+  colbert: ColbertData | null;
+  options: SearchOptions;
+  limit: number;
+  stages: Required<SearchStages>;
+  weights: Required<ScoreWeights>;
+  useColbert: boolean;
+  tierQuery: TierQuery;
+  accept: (id: string) => boolean;  // filter match and not expired
+  plan: SearchPlan;
+  indexedIds: Set<string> | null;
+  hybrid: Required<HybridOptions> | null;
+  lexical: LexicalHit[] | null;   // BM25 hits, best first (hybrid only)
+  vectorCandidates: Set<string> | null;  // candidates found before the BM25 hits joined (set by searchCandidates)
+  memory: MemoryRanking | null;
+  now: number;                    // chunks expired by then are skipped
+}
+
+interface MemoryRanking {
+  halfLifeMs: number;
+  maxImportance: number;
+  frequencyMidpoint: number;
+  weights: MemoryScores;
+  recordAccess: boolean;
+  now: number;
+}
+
+function resolveMemoryRanking(option: boolean | MemoryRankingOptions | undefined): MemoryRanking | null {
+  if (!option) return null;
+  const options = option === true ? {} : option;
+  return {
+    ...DEFAULT_MEMORY,
+    ...options,
+    weights: { ...DEFAULT_MEMORY.weights, ...options.weights },
+    now: options.now ?? Date.now()
+  };
+}
+
+type ChunkEntry = Extract<WalEntry | WalRecord, { op: 'add' | 'updateMetadata' | 'delete' }>;
+type CollectionEntry = Extract<WalEntry | WalRecord, { op: 'createCollection' | 'dropCollection' | 'renameCollection' }>;
+
+function isCollectionRecord(record: WalRecord): record is Extract<WalRecord, CollectionEntry> {
+  return record.op === 'createCollection' || record.op === 'dropCollection' || record.op === 'renameCollection';
+}
+
+/** `collections.json`: named collections as of the last compaction. */
+interface CollectionManifest {
+  lastSeq: number;
+  nextKey: number;
+  collections: { key: number; name: string; settings: CollectionOptions }[];
+}
+
+function isExpired(chunk: UltraChunk, now: number): boolean {
+  const expiresAt = chunk.metadata.expiresAt;
+  return expiresAt !== undefined && expiresAt <= now;
+}
+
+const EMPTY_COLBERT: ColbertData = { tokens: [], embeddings: [], importance: new Float32Array(0) };
+
+/** Scale to [0, 1]; equal values map to 1, or to 0 when they are all 0. */
+function minMaxNormalize(values: number[]): number[] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const range = max - min;
+  return values.map(v => (range > 0 ? (v - min) / range : v !== 0 ? 1 : 0));
+}
+
+/** The JSON-safe part of a collection's options, as logged and kept in the manifest. */
+function persistableSettings(options: CollectionOptions, dimensions: number): CollectionOptions {
+  const { embedder, metric, hnsw, lateInteraction, logger, ...rest } = options;
+  const settings: CollectionOptions = { ...rest, dimensions };
+  if (typeof metric === 'string') settings.metric = metric;
+  if (hnsw) {
+    const { random, ...graph } = hnsw;
+    settings.hnsw = graph;
+  }
+  if (lateInteraction && !isLateInteraction(lateInteraction)) {
+    settings.lateInteraction = lateInteraction;
+  }
+  return JSON.parse(JSON.stringify(settings));
+}
+
+async function readOptional(path: string): Promise<Uint8Array | null> {
+  try {
+    return await fs.readFile(path);
+  } catch (err: unknown) {
+    if (!(err instanceof Error && 'code' in err && err.code === 'ENOENT')) throw err;
+    return null;
+  }
+}
+
+function defineDecodedTier(
+  matryoshka: MatryoshkaEmbeddings,
+  tier: 'full' | 'medium',
+  decode: () => Float32Array
+): void {
+  Object.defineProperty(matryoshka, tier, { get: decode, enumerable: true, configurable: true });
 }
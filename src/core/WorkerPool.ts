@@ -0,0 +1,160 @@
+// src/core/WorkerPool.ts
+
+import { Worker } from 'worker_threads';
+import { GraphTask, GraphTaskResult, graphKernel } from './graphKernel';
+import {
+  BinaryScanResult,
+  BinaryScanTask,
+  ColbertResult,
+  ColbertTask,
+  binaryScanKernel,
+  colbertKernel
+} from './searchKernels';
+
+/** Task and result types of each kernel a pool worker can run. */
+export interface WorkerKernels {
+  graph: { task: GraphTask; result: GraphTaskResult };
+  binaryScan: { task: BinaryScanTask; result: BinaryScanResult };
+  colbert: { task: ColbertTask; result: ColbertResult };
+}
+
+export type KernelName = keyof WorkerKernels;
+
+// the kernels' text keeps the __name() calls esbuild-based loaders (tsx, vitest) wrap functions in
+const WORKER_SOURCE = `
+  const { parentPort } = require('worker_threads');
+  const __name = fn => fn;
+  const kernels = {
+    graph: ${graphKernel.toString()},
+    binaryScan: ${binaryScanKernel.toString()},
+    colbert: ${colbertKernel.toString()}
+  };
+  parentPort.on('message', ({ id, kernel, task }) => {
+    try {
+      parentPort.postMessage({ id, result: kernels[kernel](task) });
+    } catch (err) {
+      parentPort.postMessage({ id, error: String((err && err.stack) || err) });
+    }
+  });
+`;
+
+interface PendingTask {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A fixed set of worker threads running the graph and search kernels. Workers
+ * are started from the kernels' source text, so they need no separate entry file.
+ * A worker that dies is replaced; the tasks it held are rejected.
+ */
+export class WorkerPool {
+  private workers: Worker[] = [];
+  private pending = new Map<number, PendingTask>();
+  private owner = new Map<number, Worker>();
+  private nextTask = 0;
+  private nextWorker = 0;
+  private closed = false;
+  private failure: Error | null = null;
+
+  constructor(public readonly size: number) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`WorkerPool needs at least one worker, got ${size}`);
+    }
+    for (let i = 0; i < size; i++) this.workers.push(this.spawn());
+  }
+
+  /** Run one task on the next worker (round robin). */
+  public run<K extends KernelName>(kernel: K, task: WorkerKernels[K]['task']): Promise<WorkerKernels[K]['result']> {
+    if (this.failure) return Promise.reject(new Error(`WorkerPool failed: ${this.failure.message}`));
+    if (this.closed) return Promise.reject(new Error('WorkerPool is closed'));
+
+    const id = this.nextTask++;
+    const worker = this.workers[this.nextWorker++ % this.workers.length];
+    return new Promise((resolve, reject) => {
+      // the worker posts back whatever this kernel returns
+      this.pending.set(id, { resolve: result => resolve(result as WorkerKernels[K]['result']), reject });
+      this.owner.set(id, worker);
+      worker.ref();
+      worker.postMessage({ id, kernel, task });
+    });
+  }
+
+  /**
+   * Split `rowCount` query rows into one contiguous slice per worker, run them
+   * in parallel and return the results in slice order.
+   */
+  public async runSplit<K extends KernelName>(
+    kernel: K,
+    rowCount: number,
+    makeTask: (start: number, end: number) => WorkerKernels[K]['task']
+  ): Promise<WorkerKernels[K]['result'][]> {
+    const parts = Math.min(this.size, Math.max(1, rowCount));
+    const tasks: Promise<WorkerKernels[K]['result']>[] = [];
+    for (let p = 0; p < parts; p++) {
+      const start = Math.floor((p * rowCount) / parts);
+      const end = Math.floor(((p + 1) * rowCount) / parts);
+      tasks.push(this.run(kernel, makeTask(start, end)));
+    }
+    return Promise.all(tasks);
+  }
+
+  /** @internal Test hook: end worker `index` the way a crash would, so it is replaced like one. */
+  public async terminateWorker(index: number): Promise<void> {
+    await this.workers[index]?.terminate();
+  }
+
+  public async close(): Promise<void> {
+    this.closed = true;
+    const workers = this.workers;
+    this.workers = [];
+    await Promise.all(workers.map(w => w.terminate()));
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(WORKER_SOURCE, { eval: true });
+    let started = false;
+    worker.once('online', () => (started = true));
+    worker.on('message', ({ id, result, error }) => this.settle(id, result, error));
+    worker.on('error', (err: Error) => this.failWorker(worker, err, started));
+    worker.on('exit', code => this.failWorker(worker, new Error(`Worker exited with code ${code}`), started));
+    // idle workers should not keep the process alive
+    worker.unref();
+    return worker;
+  }
+
+  private settle(id: number, result: unknown, error?: string): void {
+    const task = this.pending.get(id);
+    const worker = this.owner.get(id);
+    this.pending.delete(id);
+    this.owner.delete(id);
+    if (worker && ![...this.owner.values()].includes(worker)) worker.unref();
+
+    if (!task) return;
+    if (error) task.reject(new Error(`Worker kernel failed: ${error}`));
+    else task.resolve(result);
+  }
+
+  /**
+   * Reject the tasks of a worker that errored or exited and take it out of the
+   * rotation. A worker that had started is replaced; one that never came
+   * online fails the pool, since its replacement would fail the same way.
+   */
+  private failWorker(worker: Worker, err: Error, started: boolean): void {
+    for (const [id, owner] of this.owner) {
+      if (owner !== worker) continue;
+      this.pending.get(id)?.reject(err);
+      this.pending.delete(id);
+      this.owner.delete(id);
+    }
+
+    const slot = this.workers.indexOf(worker);
+    if (slot < 0) return; // already replaced, or the pool is closing
+    if (started) {
+      this.workers[slot] = this.spawn();
+    } else {
+      this.failure = err;
+      void this.close();
+    }
+  }
+}
@@ -0,0 +1,240 @@
+// src/core/graphKernel.ts
+
+/**
+ * Read-only view of an HNSW graph laid out in flat (ideally shared) typed
+ * arrays, as produced by `HNSWGraph.sharedView()`. Posting it to a worker
+ * shares the memory instead of copying it.
+ */
+export interface SharedGraphView {
+  dimensions: number;
+  metric: 'cosine' | 'dot' | 'l2';
+  M: number;
+  M0: number;
+  entryPoint: number;
+  maxLevel: number;
+  /** Level per slot, -1 for a free slot. */
+  levels: Int32Array;
+  /** `dimensions` floats per slot (unit length under cosine). */
+  vectors: Float32Array;
+  /** `M0 + 1` ints per slot: neighbor count, then neighbor slots. */
+  links0: Int32Array;
+  /** Per slot, offset of its upper-layer block in `upperLinks` (`level` runs of `M + 1` ints). */
+  upperOffset: Int32Array;
+  upperLinks: Int32Array;
+}
+
+export interface GraphTask {
+  graph: SharedGraphView;
+  /** Query rows, `graph.dimensions` floats each (unit length under cosine). */
+  queries: Float32Array;
+  /**
+   * Insert mode: the level assigned to each query. Candidates are collected on
+   * every layer from `min(level, maxLevel)` down to 0. Without it the task is a
+   * plain search that returns layer-0 results.
+   */
+  levels?: Int32Array;
+  ef: number;
+}
+
+/**
+ * Groups of (slot, distance) pairs, closest first. Insert mode has one group per
+ * query per layer, top layer first; search mode has one group per query.
+ * Group `i` spans `offsets[i]` to `offsets[i + 1]`.
+ */
+export interface GraphTaskResult {
+  offsets: Int32Array;
+  slots: Int32Array;
+  distances: Float32Array;
+}
+
+/**
+ * HNSW layer search over a `SharedGraphView`, the same two-heap beam search
+ * as `HNSWGraph.searchLayer`. It runs inside worker threads, so it must stay
+ * self-contained: no imports and no references to module scope.
+ */
+export function graphKernel(task: GraphTask): GraphTaskResult {
+  const g = task.graph;
+  const dims = g.dimensions;
+  const q = task.queries;
+  const queryCount = dims > 0 ? q.length / dims : 0;
+  const visited = new Uint32Array(g.levels.length);
+  let epoch = 0;
+
+  function distance(qo: number, slot: number): number {
+    const v = g.vectors;
+    const vo = slot * dims;
+    if (g.metric === 'l2') {
+      let sum = 0;
+      for (let i = 0; i < dims; i++) {
+        const d = q[qo + i] - v[vo + i];
+        sum += d * d;
+      }
+      return sum;
+    }
+    if (g.metric === 'cosine') {
+      // summed like HNSWGraph's cosine distance, so both threads agree to the last bit
+      let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+      let i = 0;
+      for (; i + 3 < dims; i += 4) {
+        s0 += q[qo + i] * v[vo + i];
+        s1 += q[qo + i + 1] * v[vo + i + 1];
+        s2 += q[qo + i + 2] * v[vo + i + 2];
+        s3 += q[qo + i + 3] * v[vo + i + 3];
+      }
+      for (; i < dims; i++) s0 += q[qo + i] * v[vo + i];
+      return 1 - (s0 + s1 + s2 + s3);
+    }
+    let dot = 0;
+    for (let i = 0; i < dims; i++) dot += q[qo + i] * v[vo + i];
+    return -dot;
+  }
+
+  // min-heap of candidates and max-heap of results, as parallel arrays
+  let cSlot = new Int32Array(64), cDist = new Float64Array(64), cSize = 0;
+  let rSlot = new Int32Array(64), rDist = new Float64Array(64), rSize = 0;
+
+  function grow(size: number): void {
+    if (size < cSlot.length && size < rSlot.length) return;
+    const cap = Math.max(cSlot.length, rSlot.length) * 2;
+    const cs = new Int32Array(cap), cd = new Float64Array(cap), rs = new Int32Array(cap), rd = new Float64Array(cap);
+    cs.set(cSlot); cd.set(cDist); rs.set(rSlot); rd.set(rDist);
+    cSlot = cs; cDist = cd; rSlot = rs; rDist = rd;
+  }
+
+  function heapPush(slots: Int32Array, dists: Float64Array, size: number, slot: number, d: number, max: boolean): void {
+    let i = size;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (max ? dists[parent] >= d : dists[parent] <= d) break;
+      slots[i] = slots[parent];
+      dists[i] = dists[parent];
+      i = parent;
+    }
+    slots[i] = slot;
+    dists[i] = d;
+  }
+
+  /** Remove the top; `size` is the size before removal. */
+  function heapPop(slots: Int32Array, dists: Float64Array, size: number, max: boolean): void {
+    const n = size - 1;
+    const slot = slots[n];
+    const d = dists[n];
+    let i = 0;
+    for (;;) {
+      let child = 2 * i + 1;
+      if (child >= n) break;
+      if (child + 1 < n && (max ? dists[child + 1] > dists[child] : dists[child + 1] < dists[child])) child++;
+      if (max ? dists[child] <= d : dists[child] >= d) break;
+      slots[i] = slots[child];
+      dists[i] = dists[child];
+      i = child;
+    }
+    slots[i] = slot;
+    dists[i] = d;
+  }
+
+  function neighborBase(slot: number, layer: number): number {
+    return layer === 0 ? slot * (g.M0 + 1) : g.upperOffset[slot] + (layer - 1) * (g.M + 1);
+  }
+
+  /** Leaves up to `ef` results in the result heap. */
+  function searchLayer(qo: number, entry: number[], ef: number, layer: number): void {
+    if (++epoch === 0xffffffff) {
+      visited.fill(0);
+      epoch = 1;
+    }
+    cSize = 0;
+    rSize = 0;
+
+    for (const slot of entry) {
+      if (visited[slot] === epoch) continue;
+      visited[slot] = epoch;
+      const d = distance(qo, slot);
+      grow(Math.max(cSize, rSize) + 1);
+      heapPush(cSlot, cDist, cSize++, slot, d, false);
+      heapPush(rSlot, rDist, rSize++, slot, d, true);
+    }
+    while (rSize > ef) heapPop(rSlot, rDist, rSize--, true);
+
+    while (cSize > 0) {
+      const current = cSlot[0];
+      const currentDist = cDist[0];
+      heapPop(cSlot, cDist, cSize--, false);
+      if (rSize >= ef && currentDist > rDist[0]) break;
+
+      const links = layer === 0 ? g.links0 : g.upperLinks;
+      const base = neighborBase(current, layer);
+      const count = links[base];
+      for (let k = 1; k <= count; k++) {
+        const slot = links[base + k];
+        if (visited[slot] === epoch || g.levels[slot] < layer) continue;
+        visited[slot] = epoch;
+
+        const d = distance(qo, slot);
+        if (rSize < ef || d < rDist[0]) {
+          grow(Math.max(cSize, rSize) + 1);
+          heapPush(cSlot, cDist, cSize++, slot, d, false);
+          heapPush(rSlot, rDist, rSize++, slot, d, true);
+          if (rSize > ef) heapPop(rSlot, rDist, rSize--, true);
+        }
+      }
+    }
+  }
+
+  /** Drain the result heap into `outSlots`/`outDists`, closest first. */
+  function drainResults(outSlots: number[], outDists: number[]): number[] {
+    const start = outSlots.length;
+    const count = rSize;
+    for (let i = 0; i < count; i++) {
+      outSlots.push(0);
+      outDists.push(0);
+    }
+    for (let i = count - 1; i >= 0; i--) {
+      outSlots[start + i] = rSlot[0];
+      outDists[start + i] = rDist[0];
+      heapPop(rSlot, rDist, rSize--, true);
+    }
+    return outSlots.slice(start);
+  }
+
+  const offsets: number[] = [0];
+  const slots: number[] = [];
+  const dists: number[] = [];
+
+  for (let i = 0; i < queryCount; i++) {
+    const qo = i * dims;
+    const level = task.levels ? task.levels[i] : 0;
+    const ef = task.ef;
+
+    if (g.entryPoint < 0) {
+      if (!task.levels) offsets.push(slots.length);
+      continue;
+    }
+
+    let entry = [g.entryPoint];
+    for (let l = g.maxLevel; l > level; l--) {
+      searchLayer(qo, entry, 1, l);
+      if (rSize > 0) entry = [rSlot[0]];
+    }
+
+    if (!task.levels) {
+      searchLayer(qo, entry, ef, 0);
+      drainResults(slots, dists);
+      offsets.push(slots.length);
+      continue;
+    }
+
+    for (let l = Math.min(level, g.maxLevel); l >= 0; l--) {
+      searchLayer(qo, entry, ef, l);
+      const found = drainResults(slots, dists);
+      offsets.push(slots.length);
+      if (found.length > 0) entry = found;
+    }
+  }
+
+  return {
+    offsets: Int32Array.from(offsets),
+    slots: Int32Array.from(slots),
+    distances: Float32Array.from(dists)
+  };
+}
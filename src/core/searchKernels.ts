@@ -0,0 +1,235 @@
+// src/core/searchKernels.ts
+
+// Query-time kernels for the worker pool. Like `graphKernel`, each kernel is
+// stringified into a worker, so it must stay self-contained.
+
+import { ColbertData } from '../types';
+import { sharedFloat32Array, sharedInt32Array } from '../utils/shared';
+
+export interface BinaryScanTask {
+  /** Packed codes, `words` per row (a shared copy of the `BinaryCodeStore` rows). */
+  codes: Uint32Array;
+  words: number;
+  rows: number;
+  /** Query codes, `words` per query. */
+  queries: Uint32Array;
+  limit: number;
+  /** Optional per-row filter: only rows with a non-zero byte are scanned. */
+  accept?: Uint8Array;
+  /** Tie-break key per row (its id's position in id order); equal distances go to the lower key. */
+  rank?: Int32Array;
+}
+
+/** Per query, the `limit` closest rows; query `i` spans `offsets[i]` to `offsets[i + 1]`. */
+export interface BinaryScanResult {
+  offsets: Int32Array;
+  rows: Int32Array;
+  distances: Int32Array;
+}
+
+/**
+ * Hamming scan of every row for each query. Orders by (distance, `rank`) as
+ * `BinaryCodeStore.nearest` orders by (distance, id), so both return the same rows.
+ */
+export function binaryScanKernel(task: BinaryScanTask): BinaryScanResult {
+  const { codes, words, rows, queries, limit, accept, rank } = task;
+  const queryCount = words > 0 ? queries.length / words : 0;
+
+  // built once per thread; the kernel has no module scope to keep it in
+  const scope = globalThis as typeof globalThis & { binaryScanPopcount16?: Uint8Array };
+  let popcount = scope.binaryScanPopcount16;
+  if (!popcount) {
+    popcount = new Uint8Array(1 << 16);
+    for (let i = 1; i < popcount.length; i++) popcount[i] = (i & 1) + popcount[i >> 1];
+    scope.binaryScanPopcount16 = popcount;
+  }
+
+  // max-heap on (distance, key)
+  const heapRow = new Int32Array(Math.max(1, limit));
+  const heapDist = new Int32Array(Math.max(1, limit));
+  let size = 0;
+
+  const key = (row: number) => (rank ? rank[row] : row);
+  /** Whether heap entry `i` ranks after heap entry `j`. */
+  function after(i: number, j: number): boolean {
+    return heapDist[i] > heapDist[j] || (heapDist[i] === heapDist[j] && key(heapRow[i]) > key(heapRow[j]));
+  }
+
+  function siftDown(i: number): void {
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let best = i;
+      if (left < size && after(left, best)) best = left;
+      if (right < size && after(right, best)) best = right;
+      if (best === i) return;
+      const r = heapRow[i], d = heapDist[i];
+      heapRow[i] = heapRow[best]; heapDist[i] = heapDist[best];
+      heapRow[best] = r; heapDist[best] = d;
+      i = best;
+    }
+  }
+
+  function push(row: number, distance: number): void {
+    let i = size++;
+    heapRow[i] = row;
+    heapDist[i] = distance;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!after(i, parent)) break;
+      const r = heapRow[i], d = heapDist[i];
+      heapRow[i] = heapRow[parent]; heapDist[i] = heapDist[parent];
+      heapRow[parent] = r; heapDist[parent] = d;
+      i = parent;
+    }
+  }
+
+  const offsets = new Int32Array(queryCount + 1);
+  const outRows: number[] = [];
+  const outDists: number[] = [];
+
+  for (let q = 0; q < queryCount; q++) {
+    size = 0;
+    const qBase = q * words;
+
+    if (limit > 0) {
+      for (let row = 0; row < rows; row++) {
+        if (accept && !accept[row]) continue;
+
+        let distance = 0;
+        const base = row * words;
+        for (let w = 0; w < words; w++) {
+          const x = (codes[base + w] ^ queries[qBase + w]) >>> 0;
+          distance += popcount[x & 0xffff] + popcount[x >>> 16];
+        }
+
+        if (size < limit) push(row, distance);
+        else if (distance < heapDist[0] || (distance === heapDist[0] && key(row) < key(heapRow[0]))) {
+          heapRow[0] = row;
+          heapDist[0] = distance;
+          siftDown(0);
+        }
+      }
+    }
+
+    const order = Array.from({ length: size }, (_, i) => i)
+      .sort((a, b) => heapDist[a] - heapDist[b] || key(heapRow[a]) - key(heapRow[b]));
+    for (const i of order) {
+      outRows.push(heapRow[i]);
+      outDists.push(heapDist[i]);
+    }
+    offsets[q + 1] = outRows.length;
+  }
+
+  return { offsets, rows: Int32Array.from(outRows), distances: Int32Array.from(outDists) };
+}
+
+/**
+ * Token embeddings of several texts packed end to end. Text `t` owns tokens
+ * `textTokens[t]` to `textTokens[t + 1]`; token `k` is
+ * `vectors[tokenOffsets[k] .. tokenOffsets[k + 1]]` with weight `importance[k]`.
+ */
+export interface PackedTokens {
+  textTokens: Int32Array;
+  tokenOffsets: Int32Array;
+  vectors: Float32Array;
+  importance: Float32Array;
+}
+
+export interface ColbertTask {
+  queries: PackedTokens;
+  docs: PackedTokens;
+  /** Query `i` is scored against docs `pairs[pairOffsets[i] .. pairOffsets[i + 1]]`. */
+  pairOffsets: Int32Array;
+  pairs: Int32Array;
+  /** Queries this task scores, `from` inclusive to `to` exclusive. */
+  from: number;
+  to: number;
+}
+
+/** One score per pair of queries `from` to `to`, in `pairs` order. */
+export interface ColbertResult {
+  scores: Float64Array;
+}
+
+/** Pack token data for `colbertKernel` into shared buffers. */
+export function packTokens(texts: ColbertData[]): PackedTokens {
+  const counts = texts.map(t => t.embeddings.length);
+  const tokenCount = counts.reduce((a, b) => a + b, 0);
+
+  const textTokens = sharedInt32Array(texts.length + 1);
+  const tokenOffsets = sharedInt32Array(tokenCount + 1);
+  const importance = sharedFloat32Array(tokenCount);
+  let token = 0;
+  let floats = 0;
+  texts.forEach((text, t) => {
+    for (let k = 0; k < counts[t]; k++, token++) {
+      floats += text.embeddings[k].length;
+      tokenOffsets[token + 1] = floats;
+      importance[token] = text.importance[k] ?? 1;
+    }
+    textTokens[t + 1] = token;
+  });
+
+  const vectors = sharedFloat32Array(floats);
+  token = 0;
+  texts.forEach((text, t) => {
+    for (let k = 0; k < counts[t]; k++, token++) vectors.set(text.embeddings[k], tokenOffsets[token]);
+  });
+
+  return { textTokens, tokenOffsets, vectors, importance };
+}
+
+/**
+ * MaxSim late interaction, the same arithmetic as `ColbertIndex.score`: for
+ * each query token the best importance-weighted cosine over the doc tokens
+ * (floored at 0), averaged with the query tokens' `importance` as weights.
+ */
+export function colbertKernel(task: ColbertTask): ColbertResult {
+  const { queries, docs, pairOffsets, pairs, from, to } = task;
+  const first = pairOffsets[from];
+  const scores = new Float64Array(pairOffsets[to] - first);
+
+  function cosine(a: PackedTokens, ta: number, b: PackedTokens, tb: number): number {
+    const aStart = a.tokenOffsets[ta];
+    const bStart = b.tokenOffsets[tb];
+    const len = Math.min(a.tokenOffsets[ta + 1] - aStart, b.tokenOffsets[tb + 1] - bStart);
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < len; i++) {
+      const av = a.vectors[aStart + i];
+      const bv = b.vectors[bStart + i];
+      dot += av * bv;
+      normA += av * av;
+      normB += bv * bv;
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+
+  for (let q = from; q < to; q++) {
+    const qFirst = queries.textTokens[q];
+    const qLast = queries.textTokens[q + 1];
+
+    for (let p = pairOffsets[q]; p < pairOffsets[q + 1]; p++) {
+      const doc = pairs[p];
+      const dFirst = docs.textTokens[doc];
+      const dLast = docs.textTokens[doc + 1];
+      if (qLast === qFirst || dLast === dFirst) continue;
+
+      let total = 0;
+      let weightSum = 0;
+      for (let qt = qFirst; qt < qLast; qt++) {
+        let maxSim = 0;
+        for (let dt = dFirst; dt < dLast; dt++) {
+          const sim = cosine(queries, qt, docs, dt) * docs.importance[dt];
+          if (sim > maxSim) maxSim = sim;
+        }
+        total += maxSim * queries.importance[qt];
+        weightSum += queries.importance[qt];
+      }
+      scores[p - first] = weightSum > 0 ? total / weightSum : 0;
+    }
+  }
+
+  return { scores };
+}
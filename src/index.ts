@@ -3,4 +3,29 @@
 export * from './types';
 export * from './core/UltraVectorDB';
 export * from './core/MatryoshkaGenerator';
+export * from './core/NgramEmbeddingProvider';
+export * from './core/Index';
 export * from './core/HNSWGraph';
+export * from './core/FlatIndex';
+export * from './core/IVFIndex';
+export * from './core/graphKernel';
+export * from './core/searchKernels';
+export * from './core/WorkerPool';
+export * from './core/MetadataFilter';
+export * from './core/MetadataIndex';
+export * from './core/MetadataSchema';
+export * from './core/BinaryCodeStore';
+export * from './core/LateInteraction';
+export * from './core/BM25Index';
+export * from './core/Consolidation';
+export * from './utils/matryoshka';
+export * from './utils/random';
+export * from './utils/distance';
+export * from './utils/tokenize';
+export * from './utils/chunking';
+export * from './quantization/VectorQuantizer';
+export * from './quantization/ScalarQuantizer';
+export * from './quantization/ProductQuantizer';
+export * from './quantization/QuantizedVectorStore';
+export * from './storage/snapshot';
+export * from './storage/WriteAheadLog';
@@ -0,0 +1,136 @@
+// src/quantization/ProductQuantizer.ts
+
+import { kmeans, nearestCentroid } from '../utils/kmeans';
+import { PreparedQuery, VectorQuantizer } from './VectorQuantizer';
+
+export interface ProductQuantizerOptions {
+  /** Number of subspaces; must divide the dimensionality (default dimensions / 8). */
+  subspaces?: number;
+  /** Centroids per subspace, at most 256 so a code is one byte (default 256). */
+  centroids?: number;
+  /** k-means iterations per subspace (default 10). */
+  iterations?: number;
+}
+
+/**
+ * Product quantization: the vector is split into `subspaces` chunks and each
+ * chunk is replaced by the id of its nearest trained centroid (one byte).
+ * Queries are scored with asymmetric distance tables: per subspace, the dot
+ * product of the query chunk with every centroid is computed once, and a code
+ * is then scored with `subspaces` table lookups.
+ */
+export class ProductQuantizer implements VectorQuantizer {
+  public readonly kind = 'pq';
+  public readonly codeBytes: number;
+  private subDimensions: number;
+  private k: number;
+  private iterations: number;
+  private codebooks: Float32Array[] = []; // per subspace: k x subDimensions
+  private isTrained = false;
+
+  constructor(public readonly dimensions: number, options: ProductQuantizerOptions = {}) {
+    const subspaces = options.subspaces ?? Math.max(1, Math.floor(dimensions / 8));
+    if (dimensions % subspaces !== 0) {
+      throw new Error(`PQ subspaces (${subspaces}) must divide dimensions (${dimensions})`);
+    }
+    const centroids = options.centroids ?? 256;
+    if (centroids < 1 || centroids > 256) {
+      throw new Error(`PQ centroids must be between 1 and 256, got ${centroids}`);
+    }
+
+    this.codeBytes = subspaces;
+    this.subDimensions = dimensions / subspaces;
+    this.k = centroids;
+    this.iterations = options.iterations ?? 10;
+  }
+
+  public get trained(): boolean {
+    return this.isTrained;
+  }
+
+  public train(samples: Float32Array[]): void {
+    if (!samples.length) throw new Error('ProductQuantizer needs at least one training vector');
+
+    const sub = this.subDimensions;
+    const data = new Float32Array(samples.length * sub);
+
+    this.codebooks = [];
+    for (let s = 0; s < this.codeBytes; s++) {
+      samples.forEach((v, i) => data.set(v.subarray(s * sub, (s + 1) * sub), i * sub));
+
+      const { centroids, k } = kmeans(data, sub, this.k, this.iterations);
+      // pad to the configured k so codes always index in range
+      const book = new Float32Array(this.k * sub);
+      book.set(centroids);
+      for (let c = k; c < this.k; c++) book.set(centroids.subarray(0, sub), c * sub);
+      this.codebooks.push(book);
+    }
+    this.isTrained = true;
+  }
+
+  public toSnapshot(): Float32Array[] {
+    return this.codebooks.map(book => book.slice());
+  }
+
+  /** The centroid count is taken from the stored codebooks, so their codes stay valid. */
+  public restore(parameters: Float32Array[]): void {
+    const sub = this.subDimensions;
+    const k = parameters.length ? parameters[0].length / sub : 0;
+    if (
+      parameters.length !== this.codeBytes ||
+      !Number.isInteger(k) || k < 1 || k > 256 ||
+      parameters.some(book => book.length !== k * sub)
+    ) {
+      throw new Error(`Stored PQ codebooks do not match ${this.codeBytes} subspaces of ${sub} dimensions`);
+    }
+    this.k = k;
+    this.codebooks = parameters.map(book => book.slice());
+    this.isTrained = true;
+  }
+
+  public encode(vector: Float32Array): Uint8Array {
+    const sub = this.subDimensions;
+    const code = new Uint8Array(this.codeBytes);
+    for (let s = 0; s < this.codeBytes; s++) {
+      const chunk = vector.subarray(s * sub, (s + 1) * sub);
+      code[s] = nearestCentroid(chunk, 0, this.codebooks[s], this.k, sub).index;
+    }
+    return code;
+  }
+
+  public decode(code: Uint8Array): Float32Array {
+    const sub = this.subDimensions;
+    const vector = new Float32Array(this.dimensions);
+    for (let s = 0; s < this.codeBytes; s++) {
+      const book = this.codebooks[s];
+      vector.set(book.subarray(code[s] * sub, (code[s] + 1) * sub), s * sub);
+    }
+    return vector;
+  }
+
+  public prepare(query: Float32Array): PreparedQuery {
+    const sub = this.subDimensions;
+    const k = this.k;
+    const table = new Float32Array(this.codeBytes * k);
+    let normSq = 0;
+
+    for (let s = 0; s < this.codeBytes; s++) {
+      const book = this.codebooks[s];
+      for (let c = 0; c < k; c++) {
+        let dot = 0;
+        for (let d = 0; d < sub; d++) dot += query[s * sub + d] * book[c * sub + d];
+        table[s * k + c] = dot;
+      }
+    }
+    for (let d = 0; d < this.dimensions; d++) normSq += query[d] * query[d];
+
+    return {
+      norm: Math.sqrt(normSq),
+      dot: (code: Uint8Array) => {
+        let dot = 0;
+        for (let s = 0; s < code.length; s++) dot += table[s * k + code[s]];
+        return dot;
+      }
+    };
+  }
+}
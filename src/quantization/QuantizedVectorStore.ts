@@ -0,0 +1,170 @@
+// src/quantization/QuantizedVectorStore.ts
+
+import { PreparedQuery, QuantizerKind, VectorQuantizer } from './VectorQuantizer';
+
+/** A trained store as saved in snapshots: quantizer parameters and every row's code. */
+export interface QuantizedStoreSnapshot {
+  kind: QuantizerKind;
+  parameters: Float32Array[];
+  ids: string[];
+  codes: Uint8Array[];
+}
+
+/**
+ * Quantized codes for a set of ids in one contiguous buffer, plus the norm of
+ * each decoded vector so cosine scoring needs no decode.
+ */
+export class QuantizedVectorStore {
+  private codes: Uint8Array;
+  private norms: Float32Array;
+  private ids: string[] = [];
+  private rowOf = new Map<string, number>();
+
+  constructor(public readonly quantizer: VectorQuantizer) {
+    this.codes = new Uint8Array(quantizer.codeBytes * 256);
+    this.norms = new Float32Array(256);
+  }
+
+  public get size(): number {
+    return this.ids.length;
+  }
+
+  /** Bytes used by codes + norms for the stored rows. */
+  public get byteLength(): number {
+    return this.ids.length * (this.quantizer.codeBytes + 4);
+  }
+
+  public has(id: string): boolean {
+    return this.rowOf.has(id);
+  }
+
+  public add(id: string, vector: Float32Array): void {
+    this.setCode(id, this.quantizer.encode(vector));
+  }
+
+  public toSnapshot(): QuantizedStoreSnapshot {
+    return {
+      kind: this.quantizer.kind,
+      parameters: this.quantizer.toSnapshot(),
+      ids: this.ids.slice(),
+      codes: this.ids.map(id => this.code(id)!.slice())
+    };
+  }
+
+  /**
+   * Adopt the quantizer and codes of `toSnapshot()` output, so decoded vectors
+   * and scores match the saved store exactly. Existing rows are dropped.
+   */
+  public restore(snapshot: QuantizedStoreSnapshot): void {
+    if (snapshot.kind !== this.quantizer.kind) {
+      throw new Error(`Stored ${snapshot.kind} codes cannot be restored into a ${this.quantizer.kind} store`);
+    }
+    this.quantizer.restore(snapshot.parameters);
+    this.clear();
+    const bytes = this.quantizer.codeBytes;
+    snapshot.ids.forEach((id, i) => {
+      const code = snapshot.codes[i];
+      if (code.length !== bytes) throw new Error(`Stored code for "${id}" has ${code.length} bytes, expected ${bytes}`);
+      this.setCode(id, code);
+    });
+  }
+
+  private setCode(id: string, code: Uint8Array): void {
+    let row = this.rowOf.get(id);
+    if (row === undefined) {
+      row = this.ids.length;
+      this.ensureCapacity(row + 1);
+      this.ids.push(id);
+      this.rowOf.set(id, row);
+    }
+
+    this.codes.set(code, row * this.quantizer.codeBytes);
+
+    const decoded = this.quantizer.decode(code);
+    let normSq = 0;
+    for (let i = 0; i < decoded.length; i++) normSq += decoded[i] * decoded[i];
+    this.norms[row] = Math.sqrt(normSq);
+  }
+
+  public remove(id: string): boolean {
+    const row = this.rowOf.get(id);
+    if (row === undefined) return false;
+
+    const bytes = this.quantizer.codeBytes;
+    const last = this.ids.length - 1;
+    if (row !== last) {
+      const lastId = this.ids[last];
+      this.codes.copyWithin(row * bytes, last * bytes, (last + 1) * bytes);
+      this.norms[row] = this.norms[last];
+      this.ids[row] = lastId;
+      this.rowOf.set(lastId, row);
+    }
+
+    this.ids.pop();
+    this.rowOf.delete(id);
+    return true;
+  }
+
+  public clear(): void {
+    this.ids = [];
+    this.rowOf.clear();
+  }
+
+  public code(id: string): Uint8Array | undefined {
+    const row = this.rowOf.get(id);
+    if (row === undefined) return undefined;
+    const bytes = this.quantizer.codeBytes;
+    return this.codes.subarray(row * bytes, (row + 1) * bytes);
+  }
+
+  public decode(id: string): Float32Array | undefined {
+    const code = this.code(id);
+    return code && this.quantizer.decode(code);
+  }
+
+  public prepare(query: Float32Array): PreparedQuery {
+    return this.quantizer.prepare(query);
+  }
+
+  /** Asymmetric cosine similarity between a prepared query and a stored id. */
+  public cosine(prepared: PreparedQuery, id: string): number {
+    const row = this.rowOf.get(id);
+    if (row === undefined) return 0;
+
+    const norm = this.norms[row];
+    if (norm === 0 || prepared.norm === 0) return 0;
+
+    const bytes = this.quantizer.codeBytes;
+    const dot = prepared.dot(this.codes.subarray(row * bytes, (row + 1) * bytes));
+    return dot / (prepared.norm * norm);
+  }
+
+  /** Approximate dot product between a prepared query and a stored id. */
+  public dot(prepared: PreparedQuery, id: string): number {
+    const row = this.rowOf.get(id);
+    if (row === undefined) return 0;
+    const bytes = this.quantizer.codeBytes;
+    return prepared.dot(this.codes.subarray(row * bytes, (row + 1) * bytes));
+  }
+
+  /** Norm of the decoded vector stored for `id` (0 if absent). */
+  public norm(id: string): number {
+    const row = this.rowOf.get(id);
+    return row === undefined ? 0 : this.norms[row];
+  }
+
+  private ensureCapacity(rows: number): void {
+    if (rows > this.norms.length) {
+      let capacity = this.norms.length * 2;
+      while (capacity < rows) capacity *= 2;
+
+      const codes = new Uint8Array(capacity * this.quantizer.codeBytes);
+      codes.set(this.codes);
+      this.codes = codes;
+
+      const norms = new Float32Array(capacity);
+      norms.set(this.norms);
+      this.norms = norms;
+    }
+  }
+}
@@ -0,0 +1,98 @@
+// src/quantization/ScalarQuantizer.ts
+
+import { PreparedQuery, VectorQuantizer } from './VectorQuantizer';
+
+/**
+ * int8 scalar quantization: each dimension is mapped linearly from its trained
+ * [min, max] range onto 256 levels. 4x smaller than float32.
+ */
+export class ScalarQuantizer implements VectorQuantizer {
+  public readonly kind = 'int8';
+  public readonly codeBytes: number;
+  private min: Float32Array;
+  private scale: Float32Array; // (max - min) / 255
+  private isTrained = false;
+
+  constructor(public readonly dimensions: number) {
+    this.codeBytes = dimensions;
+    this.min = new Float32Array(dimensions);
+    this.scale = new Float32Array(dimensions);
+  }
+
+  public get trained(): boolean {
+    return this.isTrained;
+  }
+
+  public train(samples: Float32Array[]): void {
+    if (!samples.length) throw new Error('ScalarQuantizer needs at least one training vector');
+
+    const max = new Float32Array(this.dimensions).fill(-Infinity);
+    this.min.fill(Infinity);
+
+    for (const v of samples) {
+      for (let d = 0; d < this.dimensions; d++) {
+        if (v[d] < this.min[d]) this.min[d] = v[d];
+        if (v[d] > max[d]) max[d] = v[d];
+      }
+    }
+
+    for (let d = 0; d < this.dimensions; d++) {
+      this.scale[d] = (max[d] - this.min[d]) / 255;
+    }
+    this.isTrained = true;
+  }
+
+  public toSnapshot(): Float32Array[] {
+    return [this.min.slice(), this.scale.slice()];
+  }
+
+  public restore(parameters: Float32Array[]): void {
+    const [min, scale] = parameters;
+    if (parameters.length !== 2 || min.length !== this.dimensions || scale.length !== this.dimensions) {
+      throw new Error(`Stored int8 quantizer does not match ${this.dimensions} dimensions`);
+    }
+    this.min.set(min);
+    this.scale.set(scale);
+    this.isTrained = true;
+  }
+
+  public encode(vector: Float32Array): Uint8Array {
+    const code = new Uint8Array(this.dimensions);
+    for (let d = 0; d < this.dimensions; d++) {
+      const level = this.scale[d] > 0 ? Math.round((vector[d] - this.min[d]) / this.scale[d]) : 0;
+      code[d] = Math.max(0, Math.min(255, level));
+    }
+    return code;
+  }
+
+  public decode(code: Uint8Array): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    for (let d = 0; d < this.dimensions; d++) {
+      vector[d] = this.min[d] + code[d] * this.scale[d];
+    }
+    return vector;
+  }
+
+  /**
+   * q·x = Σ q[d]·min[d] + Σ (q[d]·scale[d])·code[d], so one fused pass per code.
+   */
+  public prepare(query: Float32Array): PreparedQuery {
+    const scaled = new Float32Array(this.dimensions);
+    let offset = 0;
+    let normSq = 0;
+    for (let d = 0; d < this.dimensions; d++) {
+      scaled[d] = query[d] * this.scale[d];
+      offset += query[d] * this.min[d];
+      normSq += query[d] * query[d];
+    }
+
+    return {
+      norm: Math.sqrt(normSq),
+      dot: (code: Uint8Array) => {
+        let dot = offset;
+        for (let d = 0; d < scaled.length; d++) dot += scaled[d] * code[d];
+        return dot;
+      }
+    };
+  }
+}
@@ -0,0 +1,44 @@
+// src/quantization/VectorQuantizer.ts
+
+import { ProductQuantizer, ProductQuantizerOptions } from './ProductQuantizer';
+import { ScalarQuantizer } from './ScalarQuantizer';
+
+export type QuantizerKind = 'int8' | 'pq';
+
+/**
+ * A query prepared for repeated scoring against codes of one quantizer
+ * (asymmetric: the query stays full precision, only the stored side is lossy).
+ */
+export interface PreparedQuery {
+  /** Approximate dot product between the query and the vector behind `code`. */
+  dot(code: Uint8Array): number;
+  /** L2 norm of the query. */
+  norm: number;
+}
+
+/**
+ * Lossy fixed-size encoding of float vectors. Must be trained before encoding.
+ */
+export interface VectorQuantizer {
+  readonly kind: QuantizerKind;
+  readonly dimensions: number;
+  /** Bytes per encoded vector. */
+  readonly codeBytes: number;
+  readonly trained: boolean;
+  train(samples: Float32Array[]): void;
+  encode(vector: Float32Array): Uint8Array;
+  decode(code: Uint8Array): Float32Array;
+  prepare(query: Float32Array): PreparedQuery;
+  /** Trained parameters as stored in snapshots (int8: min and scale; PQ: one codebook per subspace). */
+  toSnapshot(): Float32Array[];
+  /** Adopt parameters from `toSnapshot()` instead of training. */
+  restore(parameters: Float32Array[]): void;
+}
+
+export function createQuantizer(
+  kind: QuantizerKind,
+  dimensions: number,
+  pq: ProductQuantizerOptions = {}
+): VectorQuantizer {
+  return kind === 'int8' ? new ScalarQuantizer(dimensions) : new ProductQuantizer(dimensions, pq);
+}
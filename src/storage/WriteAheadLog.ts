@@ -0,0 +1,279 @@
+// src/storage/WriteAheadLog.ts
+
+import { promises as fs } from 'fs';
+import { UltraChunk, UltraMetadata } from '../types';
+import { BinaryReader, BinaryWriter } from '../utils/binary';
+import { crc32 } from '../utils/crc32';
+import { readChunk, writeChunk } from './snapshot';
+import { writeFileAtomic } from './atomicWrite';
+
+/**
+ * One logged mutation. `seq` increases monotonically and lets a snapshot
+ * record how much of the log it already contains. Chunk records carry the key
+ * of the collection they belong to (absent for the default collection); keys
+ * never change, so a rename does not touch earlier records.
+ */
+export type WalRecord =
+  | { seq: number; op: 'add'; chunk: UltraChunk; collection?: number }
+  | { seq: number; op: 'updateMetadata'; id: string; metadata: UltraMetadata; collection?: number }
+  | { seq: number; op: 'delete'; id: string; collection?: number }
+  | { seq: number; op: 'createCollection'; collection: number; name: string; settings: object }
+  | { seq: number; op: 'dropCollection'; collection: number }
+  | { seq: number; op: 'renameCollection'; collection: number; name: string };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** A record before the log has assigned it a sequence number. */
+export type WalEntry = DistributiveOmit<WalRecord, 'seq'>;
+
+const OP_ADD = 1;
+const OP_UPDATE_METADATA = 2;
+const OP_DELETE = 3;
+const OP_CREATE_COLLECTION = 4;
+const OP_DROP_COLLECTION = 5;
+const OP_RENAME_COLLECTION = 6;
+const IN_COLLECTION = 0x80; // op flag: a u32 collection key follows
+
+const HEADER_BYTES = 8; // u32 payload length + u32 crc32
+
+/**
+ * Append-only, checksummed mutation log.
+ *
+ * Frame layout: u32 payloadLength | u32 crc32(payload) | payload.
+ * A frame cut short by a crash (or failing its checksum at the very end of the
+ * file) is treated as torn and truncated away on open. A write that fails while
+ * running is truncated away at once, so later frames never follow torn bytes;
+ * if even that fails, the log refuses further appends.
+ */
+export class WriteAheadLog {
+  private tail: Promise<unknown> = Promise.resolve();
+  private failure: Error | null = null;
+
+  private constructor(
+    public readonly path: string,
+    private handle: fs.FileHandle,
+    private nextSeq: number,
+    private sync: boolean,
+    private validBytes: number // end of the last intact frame
+  ) {}
+
+  /**
+   * Open (or create) the log and return every intact record in it.
+   */
+  public static async open(
+    path: string,
+    options: { sync?: boolean; minSeq?: number } = {}
+  ): Promise<{ log: WriteAheadLog; records: WalRecord[] }> {
+    let data: Uint8Array;
+    try {
+      data = await fs.readFile(path);
+    } catch (err: unknown) {
+      if (!(err instanceof Error && 'code' in err && err.code === 'ENOENT')) throw err;
+      data = new Uint8Array(0);
+    }
+
+    const { records, validBytes } = WriteAheadLog.decode(data);
+
+    const handle = await fs.open(path, 'a+');
+    if (validBytes < data.length) {
+      await handle.truncate(validBytes);
+    }
+
+    const lastSeq = records.length ? records[records.length - 1].seq : 0;
+    const nextSeq = Math.max(lastSeq, options.minSeq ?? 0) + 1;
+
+    return {
+      log: new WriteAheadLog(path, handle, nextSeq, options.sync ?? true, validBytes),
+      records
+    };
+  }
+
+  /** Sequence number of the most recently appended record (0 if none). */
+  public get lastSeq(): number {
+    return this.nextSeq - 1;
+  }
+
+  /**
+   * Append a record and (by default) fsync before resolving. Appends are
+   * serialized, so records land in the order `append` was called.
+   */
+  public append<E extends WalEntry>(entry: E): Promise<E & { seq: number }> {
+    const record = { ...entry, seq: this.nextSeq++ };
+    return this.write(WriteAheadLog.encodeFrame(record), record);
+  }
+
+  /**
+   * Append several records with a single write and fsync. Each record keeps
+   * its own frame, so a crash mid-write loses only the torn tail.
+   */
+  public appendBatch<E extends WalEntry>(entries: E[]): Promise<(E & { seq: number })[]> {
+    const records = entries.map(entry => ({ ...entry, seq: this.nextSeq++ }));
+    return this.write(Buffer.concat(records.map(record => WriteAheadLog.encodeFrame(record))), records);
+  }
+
+  /**
+   * Queue `frames` behind earlier writes and resolve with `result` once they
+   * are written (and synced). On failure the file is cut back to the last
+   * intact frame before the error is passed on.
+   */
+  private write<T>(frames: Uint8Array, result: T): Promise<T> {
+    const write = this.tail.then(async () => {
+      if (this.failure) {
+        throw new Error(`Write-ahead log refuses appends after a failed write: ${this.failure.message}`);
+      }
+      try {
+        const { bytesWritten } = await this.handle.write(frames);
+        if (bytesWritten !== frames.length) {
+          throw new Error(`Short write to the write-ahead log (${bytesWritten} of ${frames.length} bytes)`);
+        }
+        if (this.sync) await this.handle.datasync();
+      } catch (err: unknown) {
+        await this.rollback(err);
+        throw err;
+      }
+      this.validBytes += frames.length;
+      return result;
+    });
+    this.tail = write.catch(() => undefined);
+    return write;
+  }
+
+  private async rollback(cause: unknown): Promise<void> {
+    try {
+      await this.handle.truncate(this.validBytes);
+      if (this.sync) await this.handle.datasync();
+    } catch {
+      this.failure = cause instanceof Error ? cause : new Error(String(cause));
+    }
+  }
+
+  /**
+   * Drop every record with `seq <= seq`, e.g. once they have been folded into
+   * a snapshot. Later records are kept; the log is rewritten atomically.
+   */
+  public truncateThrough(seq: number): Promise<void> {
+    const rewrite = this.tail.then(async () => {
+      const { records } = WriteAheadLog.decode(await fs.readFile(this.path));
+      const frames = records
+        .filter(record => record.seq > seq)
+        .map(record => WriteAheadLog.encodeFrame(record));
+
+      const bytes = Buffer.concat(frames);
+      await this.handle.close();
+      await writeFileAtomic(this.path, bytes, this.sync);
+      this.handle = await fs.open(this.path, 'a+');
+      this.validBytes = bytes.length;
+    });
+    this.tail = rewrite.catch(() => undefined);
+    return rewrite;
+  }
+
+  public async close(): Promise<void> {
+    await this.tail;
+    await this.handle.close();
+  }
+
+  private static encodeFrame(record: WalRecord): Uint8Array {
+    const w = new BinaryWriter();
+    w.f64(record.seq);
+
+    const scoped = (op: number, collection?: number) => {
+      if (collection) {
+        w.u8(op | IN_COLLECTION);
+        w.u32(collection);
+      } else {
+        w.u8(op);
+      }
+    };
+
+    switch (record.op) {
+      case 'add':
+        scoped(OP_ADD, record.collection);
+        writeChunk(w, record.chunk);
+        break;
+      case 'updateMetadata':
+        scoped(OP_UPDATE_METADATA, record.collection);
+        w.string(record.id);
+        w.string(JSON.stringify(record.metadata));
+        break;
+      case 'delete':
+        scoped(OP_DELETE, record.collection);
+        w.string(record.id);
+        break;
+      case 'createCollection':
+        w.u8(OP_CREATE_COLLECTION);
+        w.u32(record.collection);
+        w.string(record.name);
+        w.string(JSON.stringify(record.settings));
+        break;
+      case 'dropCollection':
+        w.u8(OP_DROP_COLLECTION);
+        w.u32(record.collection);
+        break;
+      case 'renameCollection':
+        w.u8(OP_RENAME_COLLECTION);
+        w.u32(record.collection);
+        w.string(record.name);
+        break;
+    }
+
+    const payload = w.toBytes();
+    const frame = new Uint8Array(HEADER_BYTES + payload.length);
+    const view = new DataView(frame.buffer);
+    view.setUint32(0, payload.length, true);
+    view.setUint32(4, crc32(payload), true);
+    frame.set(payload, HEADER_BYTES);
+    return frame;
+  }
+
+  private static decode(data: Uint8Array): { records: WalRecord[]; validBytes: number } {
+    const records: WalRecord[] = [];
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let offset = 0;
+
+    while (offset < data.length) {
+      if (data.length - offset < HEADER_BYTES) break; // torn header
+
+      const length = view.getUint32(offset, true);
+      const checksum = view.getUint32(offset + 4, true);
+      const end = offset + HEADER_BYTES + length;
+      if (end > data.length) break; // torn payload
+
+      const payload = data.subarray(offset + HEADER_BYTES, end);
+      if (crc32(payload) !== checksum) {
+        if (end === data.length) break; // torn final record
+        throw new Error(`Write-ahead log is corrupt at byte ${offset} (checksum mismatch)`);
+      }
+
+      records.push(WriteAheadLog.decodePayload(payload));
+      offset = end;
+    }
+
+    return { records, validBytes: offset };
+  }
+
+  private static decodePayload(payload: Uint8Array): WalRecord {
+    const r = new BinaryReader(payload);
+    const seq = r.f64();
+    let op = r.u8();
+    const scope = op & IN_COLLECTION ? { collection: r.u32() } : {};
+    op &= ~IN_COLLECTION;
+
+    switch (op) {
+      case OP_ADD:
+        return { seq, op: 'add', chunk: readChunk(r), ...scope };
+      case OP_UPDATE_METADATA:
+        return { seq, op: 'updateMetadata', id: r.string(), metadata: JSON.parse(r.string()), ...scope };
+      case OP_DELETE:
+        return { seq, op: 'delete', id: r.string(), ...scope };
+      case OP_CREATE_COLLECTION:
+        return { seq, op: 'createCollection', collection: r.u32(), name: r.string(), settings: JSON.parse(r.string()) };
+      case OP_DROP_COLLECTION:
+        return { seq, op: 'dropCollection', collection: r.u32() };
+      case OP_RENAME_COLLECTION:
+        return { seq, op: 'renameCollection', collection: r.u32(), name: r.string() };
+      default:
+        throw new Error(`Unknown write-ahead log op ${op} in record ${seq}`);
+    }
+  }
+}
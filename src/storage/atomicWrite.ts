@@ -0,0 +1,35 @@
+// src/storage/atomicWrite.ts
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Replace `path` with `bytes` via a temp file and a rename. With `sync` the
+ * temp file is fsynced before the rename and the directory after it, so after
+ * a power loss the path holds either the old or the new contents, and the
+ * rename itself is not lost.
+ */
+export async function writeFileAtomic(path: string, bytes: Uint8Array, sync = true): Promise<void> {
+  const tmpPath = `${path}.tmp`;
+  const file = await fs.open(tmpPath, 'w');
+  try {
+    await file.writeFile(bytes);
+    if (sync) await file.sync();
+  } finally {
+    await file.close();
+  }
+
+  await fs.rename(tmpPath, path);
+  if (sync) await syncDirectory(dirname(path));
+}
+
+async function syncDirectory(directory: string): Promise<void> {
+  // directories cannot be opened for fsync on Windows, where rename is durable by itself
+  if (process.platform === 'win32') return;
+  const handle = await fs.open(directory, 'r');
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
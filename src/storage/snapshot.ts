@@ -0,0 +1,384 @@
+// src/storage/snapshot.ts
+
+import { UltraChunk } from '../types';
+import { HNSWSnapshot } from '../core/HNSWGraph';
+import { IndexSnapshot } from '../core/Index';
+import { IVFSnapshot } from '../core/IVFIndex';
+import { ColbertIndexSnapshot } from '../core/LateInteraction';
+import { MetadataIndexSpec } from '../core/MetadataIndex';
+import { MetadataSchemaSpec } from '../core/MetadataSchema';
+import { QuantizedStoreSnapshot } from '../quantization/QuantizedVectorStore';
+import { createQuantizer } from '../quantization/VectorQuantizer';
+import { MEDIUM_DIMENSIONS } from '../utils/matryoshka';
+import { BinaryReader, BinaryWriter } from '../utils/binary';
+import { crc32 } from '../utils/crc32';
+
+/**
+ * Snapshot file layout (all integers little-endian):
+ *
+ *   magic "UVDB" | u32 version | u32 payloadLength | payload | u32 crc32(payload)
+ *
+ * The payload holds DB settings and the last folded WAL sequence number, the
+ * trained quantizers of the full and medium tiers with their codes, every
+ * chunk (content, metadata as JSON, Matryoshka tiers, ColBERT data), the
+ * stage-2 index (the exact HNSW topology, the trained IVF clustering, or the
+ * metric of a flat index), the fitted median thresholds of the stage-1 binary
+ * codes, the trained centroids of the token index, and the metadata indexes
+ * and schema as JSON.
+ * A tier saved as codes is left out of the chunks and decoded from them on read.
+ */
+export const SNAPSHOT_MAGIC = 0x42445655; // "UVDB"
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotState {
+  dimensions: number;
+  /** Last write-ahead log sequence number folded into this snapshot. */
+  lastSeq: number;
+  chunks: UltraChunk[];
+  index: IndexSnapshot;
+  /** Fitted `median` thresholds of the binary codes, or null when not fitted. */
+  binaryThresholds: Float32Array | null;
+  /** Trained centroids and token assignments of the default `ColbertIndex`, or null. */
+  colbertIndex: ColbertIndexSnapshot | null;
+  /**
+   * Trained quantized stores, or null for float tiers and untrained quantizers.
+   * `keepFull` writes the float `full` tier beside its codes (exact rerank).
+   */
+  quantized: { full: QuantizedStoreSnapshot | null; medium: QuantizedStoreSnapshot | null; keepFull: boolean };
+  /** Secondary metadata indexes, including those added with `createIndex`. */
+  indexes: MetadataIndexSpec[];
+  schema: MetadataSchemaSpec | null;
+}
+
+/** Float tiers written as codes elsewhere and left out of a chunk record. */
+export interface OmittedTiers {
+  full?: boolean;
+  medium?: boolean;
+}
+
+/** Rebuilds an omitted tier of the chunk with the given id. */
+export type TierDecoder = (tier: keyof OmittedTiers, id: string) => Float32Array;
+
+const OMIT_FULL = 1;
+const OMIT_MEDIUM = 2;
+
+export function encodeSnapshot(state: SnapshotState): Uint8Array {
+  const w = new BinaryWriter();
+
+  w.u32(state.dimensions);
+  w.f64(state.lastSeq);
+
+  const { full, medium, keepFull } = state.quantized;
+  writeQuantizedStore(w, full);
+  writeQuantizedStore(w, medium);
+  w.u8(keepFull ? 1 : 0);
+
+  const omit: OmittedTiers = { full: !!full && !keepFull, medium: !!medium };
+  w.u32(state.chunks.length);
+  for (const chunk of state.chunks) {
+    writeChunk(w, chunk, omit);
+  }
+
+  writeIndex(w, state.index);
+  w.u8(state.binaryThresholds ? 1 : 0);
+  if (state.binaryThresholds) w.float32Array(state.binaryThresholds);
+  writeColbertIndex(w, state.colbertIndex);
+  w.string(JSON.stringify(state.indexes));
+  w.string(JSON.stringify(state.schema));
+
+  const payload = w.toBytes();
+  const out = new BinaryWriter();
+  out.u32(SNAPSHOT_MAGIC);
+  out.u32(SNAPSHOT_VERSION);
+  out.bytes(payload);
+  out.u32(crc32(payload));
+  return out.toBytes();
+}
+
+export function decodeSnapshot(data: Uint8Array): SnapshotState {
+  const outer = new BinaryReader(data);
+
+  if (outer.u32() !== SNAPSHOT_MAGIC) {
+    throw new Error('Not an UltraVectorDB snapshot (bad magic)');
+  }
+  const version = outer.u32();
+  if (version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${version} (this build reads version ${SNAPSHOT_VERSION})`);
+  }
+
+  const payload = outer.bytes();
+  if (outer.u32() !== crc32(payload)) {
+    throw new Error('Snapshot checksum mismatch: file is corrupt');
+  }
+
+  const r = new BinaryReader(payload);
+  const dimensions = r.u32();
+  const lastSeq = r.f64();
+
+  const quantized = { full: readQuantizedStore(r), medium: readQuantizedStore(r), keepFull: r.u8() === 1 };
+  const decoders = {
+    full: quantized.full && storeDecoder(quantized.full, dimensions),
+    medium: quantized.medium && storeDecoder(quantized.medium, MEDIUM_DIMENSIONS)
+  };
+  const decodeTier: TierDecoder = (tier, id) => {
+    const decode = decoders[tier];
+    if (!decode) throw new Error(`Snapshot chunk "${id}" omits its ${tier} tier but holds no codes for it`);
+    return decode(id);
+  };
+
+  const chunkCount = r.u32();
+  const chunks: UltraChunk[] = [];
+  for (let i = 0; i < chunkCount; i++) {
+    chunks.push(readChunk(r, decodeTier));
+  }
+
+  const index = readIndex(r);
+  const binaryThresholds = r.u8() ? r.float32Array() : null;
+  const colbertIndex = readColbertIndex(r);
+  const indexes = JSON.parse(r.string());
+  const schema = JSON.parse(r.string());
+
+  return { dimensions, lastSeq, chunks, index, binaryThresholds, colbertIndex, quantized, indexes, schema };
+}
+
+export function writeChunk(w: BinaryWriter, chunk: UltraChunk, omit: OmittedTiers = {}): void {
+  w.string(chunk.id);
+  w.string(chunk.content);
+  w.string(JSON.stringify(chunk.metadata));
+
+  const m = chunk.matryoshka;
+  w.u8((omit.full ? OMIT_FULL : 0) | (omit.medium ? OMIT_MEDIUM : 0));
+  if (!omit.full) w.float32Array(m.full);
+  if (!omit.medium) w.float32Array(m.medium);
+  w.float32Array(m.small);
+  w.bytes(m.tiny);
+  w.uint32Array(m.nano);
+
+  const c = chunk.colbert;
+  w.u32(c.tokens.length);
+  for (const token of c.tokens) w.string(token);
+  w.u32(c.embeddings.length);
+  for (const emb of c.embeddings) w.float32Array(emb);
+  w.float32Array(c.importance);
+}
+
+export function readChunk(r: BinaryReader, decodeTier?: TierDecoder): UltraChunk {
+  const id = r.string();
+  const content = r.string();
+  const metadata = JSON.parse(r.string());
+
+  const omitted = r.u8();
+  const tier = (name: keyof OmittedTiers, flag: number): Float32Array => {
+    if (!(omitted & flag)) return r.float32Array();
+    if (!decodeTier) throw new Error(`Chunk "${id}" omits its ${name} tier and no codes were given to rebuild it`);
+    return decodeTier(name, id);
+  };
+  const full = tier('full', OMIT_FULL);
+  const medium = tier('medium', OMIT_MEDIUM);
+  const small = r.float32Array();
+  const tiny = r.bytes();
+  const nano = r.uint32Array();
+
+  const tokenCount = r.u32();
+  const tokens: string[] = [];
+  for (let i = 0; i < tokenCount; i++) tokens.push(r.string());
+  const embeddingCount = r.u32();
+  const embeddings: Float32Array[] = [];
+  for (let i = 0; i < embeddingCount; i++) embeddings.push(r.float32Array());
+  const importance = r.float32Array();
+
+  return {
+    id,
+    content,
+    metadata,
+    matryoshka: { full, medium, small, tiny, nano },
+    colbert: { tokens, embeddings, importance }
+  };
+}
+
+function writeIndex(w: BinaryWriter, index: IndexSnapshot): void {
+  w.string(index.kind);
+  if (index.kind === 'hnsw') {
+    writeGraph(w, index.graph);
+  } else {
+    w.string(index.metric);
+    w.string(JSON.stringify(index.kind === 'ivf' ? index.options : {}));
+    if (index.kind === 'ivf') writeIVFState(w, index.trained);
+  }
+}
+
+function readIndex(r: BinaryReader): IndexSnapshot {
+  const kind = r.string();
+  if (kind === 'hnsw') return { kind, graph: readGraph(r) };
+
+  const metric = r.string();
+  const options = JSON.parse(r.string());
+  if (kind === 'flat') return { kind, metric };
+  if (kind === 'ivf') return { kind, metric, options, trained: readIVFState(r) };
+  throw new Error(`Unknown index kind "${kind}" in snapshot`);
+}
+
+function writeIVFState(w: BinaryWriter, trained: IVFSnapshot['trained']): void {
+  w.u8(trained ? 1 : 0);
+  if (!trained) return;
+  w.u32(trained.dimensions);
+  w.float32Array(trained.centroids);
+  w.u8(trained.codebooks ? 1 : 0);
+  if (trained.codebooks) {
+    w.u32(trained.codebooks.length);
+    for (const book of trained.codebooks) w.float32Array(book);
+  }
+
+  w.u32(trained.lists.length);
+  for (const list of trained.lists) {
+    w.u32(list.ids.length);
+    list.ids.forEach((id, row) => {
+      w.string(id);
+      if (trained.codebooks) w.bytes(list.codes[row]);
+    });
+  }
+}
+
+function readIVFState(r: BinaryReader): IVFSnapshot['trained'] {
+  if (!r.u8()) return null;
+  const dimensions = r.u32();
+  const centroids = r.float32Array();
+  let codebooks: Float32Array[] | null = null;
+  if (r.u8()) {
+    codebooks = [];
+    const count = r.u32();
+    for (let i = 0; i < count; i++) codebooks.push(r.float32Array());
+  }
+
+  const listCount = r.u32();
+  const lists: { ids: string[]; codes: Uint8Array[] }[] = [];
+  for (let c = 0; c < listCount; c++) {
+    const size = r.u32();
+    const ids: string[] = [];
+    const codes: Uint8Array[] = [];
+    for (let row = 0; row < size; row++) {
+      ids.push(r.string());
+      if (codebooks) codes.push(r.bytes());
+    }
+    lists.push({ ids, codes });
+  }
+  return { dimensions, centroids, codebooks, lists };
+}
+
+function writeQuantizedStore(w: BinaryWriter, store: QuantizedStoreSnapshot | null): void {
+  w.u8(store ? 1 : 0);
+  if (!store) return;
+  w.string(store.kind);
+  w.u32(store.parameters.length);
+  for (const parameters of store.parameters) w.float32Array(parameters);
+  w.u32(store.ids.length);
+  store.ids.forEach((id, i) => {
+    w.string(id);
+    w.bytes(store.codes[i]);
+  });
+}
+
+function readQuantizedStore(r: BinaryReader): QuantizedStoreSnapshot | null {
+  if (!r.u8()) return null;
+  const kind = r.string();
+  if (kind !== 'int8' && kind !== 'pq') throw new Error(`Unknown quantizer kind "${kind}" in snapshot`);
+
+  const parameterCount = r.u32();
+  const parameters: Float32Array[] = [];
+  for (let i = 0; i < parameterCount; i++) parameters.push(r.float32Array());
+
+  const rowCount = r.u32();
+  const ids: string[] = [];
+  const codes: Uint8Array[] = [];
+  for (let i = 0; i < rowCount; i++) {
+    ids.push(r.string());
+    codes.push(r.bytes());
+  }
+  return { kind, parameters, ids, codes };
+}
+
+function writeColbertIndex(w: BinaryWriter, index: ColbertIndexSnapshot | null): void {
+  w.u8(index ? 1 : 0);
+  if (!index) return;
+  w.u32(index.dimensions);
+  w.float32Array(index.centroids);
+  w.u32(index.ids.length);
+  index.ids.forEach((id, i) => {
+    w.string(id);
+    w.uint16Array(index.codes[i]);
+  });
+}
+
+function readColbertIndex(r: BinaryReader): ColbertIndexSnapshot | null {
+  if (!r.u8()) return null;
+  const dimensions = r.u32();
+  const centroids = r.float32Array();
+  const count = r.u32();
+  const ids: string[] = [];
+  const codes: Uint16Array[] = [];
+  for (let i = 0; i < count; i++) {
+    ids.push(r.string());
+    codes.push(r.uint16Array());
+  }
+  return { dimensions, centroids, ids, codes };
+}
+
+/** Decodes the saved code of an id with the saved quantizer. */
+function storeDecoder(store: QuantizedStoreSnapshot, dimensions: number): (id: string) => Float32Array {
+  const quantizer = createQuantizer(store.kind, dimensions, { subspaces: store.parameters.length });
+  quantizer.restore(store.parameters);
+  const rowOf = new Map(store.ids.map((id, row) => [id, row]));
+  return id => {
+    const row = rowOf.get(id);
+    if (row === undefined) throw new Error(`Snapshot holds no ${store.kind} code for chunk "${id}"`);
+    return quantizer.decode(store.codes[row]);
+  };
+}
+
+function writeGraph(w: BinaryWriter, graph: HNSWSnapshot): void {
+  w.u32(graph.M);
+  w.u32(graph.M0);
+  w.string(graph.metric);
+  w.u8(graph.extendCandidates ? 1 : 0);
+  w.u8(graph.keepPrunedConnections ? 1 : 0);
+  w.u32(graph.efConstruction);
+  w.f64(graph.L_f);
+  w.u32(graph.maxLevel);
+  w.u8(graph.entryPointId === null ? 0 : 1);
+  if (graph.entryPointId !== null) w.string(graph.entryPointId);
+
+  w.u32(graph.nodes.length);
+  for (const node of graph.nodes) {
+    w.string(node.id);
+    w.u32(node.level);
+    for (let l = 0; l <= node.level; l++) {
+      w.uint32Array(Uint32Array.from(node.neighbors[l] ?? []));
+    }
+  }
+}
+
+function readGraph(r: BinaryReader): HNSWSnapshot {
+  const M = r.u32();
+  const M0 = r.u32();
+  const metric = r.string();
+  const extendCandidates = r.u8() === 1;
+  const keepPrunedConnections = r.u8() === 1;
+  const efConstruction = r.u32();
+  const L_f = r.f64();
+  const maxLevel = r.u32();
+  const entryPointId = r.u8() ? r.string() : null;
+
+  const nodeCount = r.u32();
+  const nodes: HNSWSnapshot['nodes'] = [];
+  for (let i = 0; i < nodeCount; i++) {
+    const id = r.string();
+    const level = r.u32();
+    const neighbors: number[][] = [];
+    for (let l = 0; l <= level; l++) {
+      neighbors.push(Array.from(r.uint32Array()));
+    }
+    nodes.push({ id, level, neighbors });
+  }
+
+  return { M, M0, metric, extendCandidates, keepPrunedConnections, efConstruction, L_f, maxLevel, entryPointId, nodes };
+}
@@ -4,7 +4,7 @@ export interface MatryoshkaEmbeddings {
   full: Float32Array;      // 768d full precision
   medium: Float32Array;    // 256d medium
   small: Float32Array;     // 128d small
-  tiny: Uint8Array;        // 64-bit binary (tiny)
+  tiny: Uint8Array;        // 64-bit binary (tiny), bit-packed into 8 bytes
   nano: Uint32Array;       // 32-bit compressed (nano)
 }
 
@@ -19,6 +19,19 @@ export interface UltraMetadata {
   importance?: number;
   created?: number;
   lastAccessed?: number;
+  /** Times the chunk was returned by a memory-ranked search. */
+  accessCount?: number;
+  /** Time (ms) after which the chunk is hidden from search and removed by `sweepExpired`. */
+  expiresAt?: number;
+  /** Consolidated chunks only: ids of the original chunks merged into this one. */
+  sources?: string[];
+  /** Chunks from `addDocument`: the document, the chunk's position and its character offsets in the text. */
+  docId?: string;
+  chunkIndex?: number;
+  startOffset?: number;
+  endOffset?: number;
+  /** Markdown-chunked documents: the section's heading path. */
+  heading?: string;
   // extra metadata fields allowed
   [key: string]: any;
 }
@@ -31,15 +44,277 @@ export interface UltraChunk {
   metadata: UltraMetadata;
 }
 
+/**
+ * What callers hand to `addChunk`: embeddings are computed by the DB unless a
+ * precomputed `full` vector is supplied.
+ */
+export type ChunkInput = Omit<UltraChunk, 'matryoshka' | 'colbert'> & {
+  full?: Float32Array;
+  /** Time to live in ms from insertion; sets `metadata.expiresAt` and overrides the collection's `ttl`. */
+  ttl?: number;
+};
+
+/**
+ * Partial update for `updateChunk`. `metadata` is shallow-merged; changing
+ * `content` or `full` re-embeds the chunk.
+ */
+export interface ChunkPatch {
+  content?: string;
+  metadata?: Partial<UltraMetadata>;
+  full?: Float32Array;
+}
+
+/**
+ * Query-vs-chunk score at every Matryoshka tier. `nano`/`tiny` are Hamming
+ * distances (lower is closer); `small`/`medium` are cosine similarities and
+ * `full` is the similarity under the DB's distance metric (cosine by default).
+ */
+export interface TierScores {
+  nano: number;
+  tiny: number;
+  small: number;
+  medium: number;
+  full: number;
+}
+
+/**
+ * Memory-ranking contributions; each is the factor times its share of the
+ * weights, so together they add up to the result's score.
+ */
+export interface MemoryScores {
+  semantic: number;
+  recency: number;
+  importance: number;
+  frequency: number;
+}
+
 export interface SearchBreakdown {
-  binary: number;
-  hnsw: number;
+  binary: number;   // Hamming distance between the stage-1 binary codes
+  hnsw: number;     // medium-tier cosine (the tier the graph indexes)
   colbert: number;
-  final: number;
+  final: number;    // full-tier similarity under the DB's metric
+  tiers: TierScores;
+  /** Hybrid searches only: the chunk's BM25 score for the query text (0 when no term matched). */
+  bm25?: number;
+  /** Memory-ranked searches only. */
+  memory?: MemoryScores;
 }
 
 export interface SearchResult {
   chunk: UltraChunk;
   score: number;
   breakdown: SearchBreakdown;
+  /** Ids of lower-ranked near-duplicates collapsed into this result (see `SearchOptions.dedupe`). */
+  duplicates?: string[];
+  /** Collection the chunk came from (set by `searchCollections`). */
+  collection?: string;
+  /** Neighbouring chunks of the same document, in document order (see `SearchOptions.contextChunks`). */
+  context?: { before: UltraChunk[]; after: UltraChunk[] };
+}
+
+export type FilterValue = string | number | boolean | null;
+
+export interface FieldCondition {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $in?: FilterValue[];
+  $gt?: number;
+  $gte?: number;
+  $lt?: number;
+  $lte?: number;
+  $exists?: boolean;
+}
+
+/**
+ * Filter expression over `UltraMetadata`, e.g.
+ *
+ *   { type: 'Technical', importance: { $gt: 5 } }
+ *   { $or: [{ type: { $in: ['Theory', 'Philosophy'] } }, { $not: { archived: { $exists: true } } }] }
+ *   { type: 'Technical', $or: [{ importance: { $gte: 8 } }, { pinned: true }] }
+ *
+ * Every entry in one object is ANDed, field conditions and `$and` / `$or` /
+ * `$not` alike; a bare value is shorthand for `$eq`.
+ */
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  $not?: MetadataFilter;
+  [field: string]: FieldCondition | FilterValue | MetadataFilter | MetadataFilter[] | undefined;
+}
+
+/**
+ * How a (filtered) search was executed:
+ * - `graph`: no filter, normal binary + HNSW candidate generation
+ * - `filteredGraph`: filter pushed into the binary scan and HNSW traversal
+ * - `bruteForce`: secondary indexes narrowed the filter to few enough ids to score them all
+ */
+export interface SearchPlan {
+  strategy: 'graph' | 'filteredGraph' | 'bruteForce';
+  indexesUsed: string[];
+  /** Ids the indexes say may match; null when no index could bound the filter. */
+  estimatedMatches: number | null;
+  selectivity: number | null;
+}
+
+/** Pipeline stages; all but `lateInteraction` enabled by default. */
+export interface SearchStages {
+  binary?: boolean;   // stage 1: Hamming pre-filter over the packed binary codes
+  small?: boolean;    //   1b: small-tier cosine refinement of the binary survivors
+  medium?: boolean;   //   1c: medium-tier cosine refinement
+  hnsw?: boolean;     // stage 2: ANN index search (HNSW, flat or IVF) on the medium tier
+  lateInteraction?: boolean; // 2b: MaxSim candidates from the token index (off by default)
+  colbert?: boolean;  // stage 3: token-level late interaction
+  rerank?: boolean;   // stage 4: full-vector similarity under the DB's metric
+}
+
+/** Fraction of candidates each cascade tier keeps (default 0.5 each, never below `limit`). */
+export interface CascadeKeepRatios {
+  small?: number;
+  medium?: number;
+}
+
+/** Relative weights of the scoring stages (default colbert 0.6, full 0.4). */
+export interface ScoreWeights {
+  colbert?: number;
+  full?: number;
+}
+
+/**
+ * Fusion of the vector ranking with a BM25 ranking of the query text.
+ * `rrf` sums 1 / (rrfK + rank) over the lists a chunk is in (BM25 hits that
+ * no vector stage found are not in the vector list); `weighted` min-max normalizes
+ * both scores over the fused candidates and mixes them by `lexicalWeight`.
+ */
+export interface HybridOptions {
+  fusion?: 'rrf' | 'weighted';    // default rrf
+  /** RRF rank constant (default 60). */
+  rrfK?: number;
+  /** Share of the BM25 score in `weighted` fusion (default 0.5). */
+  lexicalWeight?: number;
+  /** BM25 hits added to the vector candidates (default 50). */
+  candidates?: number;
+}
+
+/**
+ * Maximal marginal relevance over the `full` vectors: each pick maximizes
+ * lambda × relevance − (1 − lambda) × (highest cosine to an earlier pick),
+ * with relevance being the result score min-max scaled over the candidates.
+ */
+export interface MMROptions {
+  /** 1 ranks by relevance alone, 0 by novelty alone (default 0.7). */
+  lambda?: number;
+  /** Top-ranked results MMR chooses from (default 4 × limit). */
+  candidates?: number;
+}
+
+/**
+ * Agent-memory ranking: the semantic score, min-max scaled to [0, 1] over the
+ * candidates, is blended with
+ * - recency: 0.5 ^ (age / halfLifeMs), age measured from `lastAccessed`, else `created` (0 without either)
+ * - importance: `importance / maxImportance`, clamped to [0, 1]
+ * - frequency: accessCount / (accessCount + frequencyMidpoint)
+ */
+export interface MemoryRankingOptions {
+  /** Default 7 days. */
+  halfLifeMs?: number;
+  /** Default 10. */
+  maxImportance?: number;
+  /** Access count at which the frequency factor reaches 0.5 (default 5). */
+  frequencyMidpoint?: number;
+  /** Relative weights (default semantic 1, recency 0.3, importance 0.2, frequency 0.1). */
+  weights?: Partial<MemoryScores>;
+  /** Set `lastAccessed` and increment `accessCount` on returned chunks (default true). */
+  recordAccess?: boolean;
+  /** Current time in ms (default `Date.now()`). */
+  now?: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  stages?: SearchStages;
+  /** How many nearest binary codes stage 1 keeps (default 500). */
+  binaryCandidates?: number;
+  keepRatios?: CascadeKeepRatios;
+  /** Candidates from the stage-2 index; the beam width for HNSW (default 50). */
+  ef?: number;
+  /** Lists scanned by an IVF index in stage 2 (defaults to its `nprobe`). */
+  nprobe?: number;
+  /** Candidates from the late-interaction index when that stage is enabled (default 50). */
+  tokenCandidates?: number;
+  weights?: ScoreWeights;
+  /** Replaces the weighted blend entirely; receives every stage's score. */
+  scorer?: (breakdown: SearchBreakdown, chunk: UltraChunk) => number;
+  /** Restrict results to chunks whose metadata matches. Applied during candidate generation. */
+  filter?: MetadataFilter;
+  /** Receives the plan chosen for this query. */
+  onPlan?: (plan: SearchPlan) => void;
+  /**
+   * Fuse BM25 over chunk contents with the vector ranking; `score` is then the
+   * fused score. Needs query text, so `searchByVector` ignores it.
+   */
+  hybrid?: boolean | HybridOptions;
+  /**
+   * Collapse results whose `full` vectors have at least this cosine similarity
+   * into the best-ranked one, listing the others in its `duplicates`.
+   */
+  dedupe?: number;
+  /** Diversify the results with MMR; results keep their scores but are returned in MMR order. */
+  mmr?: boolean | MMROptions;
+  /** Rank by semantic score, recency, importance and access frequency; see `MemoryRankingOptions`. */
+  memory?: boolean | MemoryRankingOptions;
+  /** Attach up to this many chunks on each side of document chunks as `context` (default 0). */
+  contextChunks?: number;
+}
+
+export interface CollectionSearchOptions extends SearchOptions {
+  /** Collections to search, optionally with score weights (default: all, weight 1). */
+  collections?: string[] | Record<string, number>;
+}
+
+export interface BatchSearchOptions extends SearchOptions {
+  /** Worker threads for the binary scan and ColBERT scoring; 0 or 1 runs on the main thread (default 0). */
+  workers?: number;
+}
+
+/** Progress of an `addChunks` call, reported after every batch. */
+export interface IngestProgress {
+  added: number;
+  batches: number;
+  elapsedMs: number;
+  chunksPerSecond: number;
+  /** Known when the input is an array. */
+  total?: number;
+}
+
+export interface AddChunksOptions {
+  /** Chunks embedded, logged and indexed together (default 256). */
+  batchSize?: number;
+  /** Worker threads for HNSW construction; 0 or 1 builds on the main thread (default 0). */
+  workers?: number;
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+export interface EmbeddingResult {
+  matryoshka: MatryoshkaEmbeddings;
+  colbert: ColbertData;
+}
+
+/**
+ * Turns text into Matryoshka tiers + ColBERT token data.
+ * Implementations may call out to a model server; the DB only relies on this contract.
+ */
+export interface EmbeddingProvider {
+  /** Dimensionality of the `full` tier produced by this provider. */
+  readonly dimensions: number;
+  /**
+   * Value above which a `full` dimension becomes a 1 bit in the tiny/nano
+   * codes (default 0). The DB uses it when it derives tiers from a caller's
+   * vector, so those codes match the ones `embed` produces, and as the
+   * threshold of its stage-1 binary codes in `sign` mode.
+   */
+  readonly binaryThreshold?: number;
+  embed(text: string): Promise<EmbeddingResult>;
+  embedBatch(texts: string[]): Promise<EmbeddingResult[]>;
+  /** Token-level data only; used when the caller already supplies the `full` vector. */
+  embedTokens?(text: string): Promise<ColbertData>;
 }
@@ -0,0 +1,169 @@
+// src/utils/binary.ts
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Growable little-endian byte writer used by the on-disk formats.
+ */
+export class BinaryWriter {
+  private buffer = new Uint8Array(1024);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes <= this.buffer.length) return;
+
+    let size = this.buffer.length * 2;
+    while (size < this.offset + bytes) size *= 2;
+
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  public u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  public u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  public f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  public bytes(data: Uint8Array): void {
+    this.u32(data.length);
+    this.ensure(data.length);
+    this.buffer.set(data, this.offset);
+    this.offset += data.length;
+  }
+
+  public string(value: string): void {
+    this.bytes(textEncoder.encode(value));
+  }
+
+  public float32Array(data: Float32Array): void {
+    this.u32(data.length);
+    this.ensure(data.length * 4);
+    for (let i = 0; i < data.length; i++) {
+      this.view.setFloat32(this.offset, data[i], true);
+      this.offset += 4;
+    }
+  }
+
+  public uint16Array(data: Uint16Array): void {
+    this.u32(data.length);
+    this.ensure(data.length * 2);
+    for (let i = 0; i < data.length; i++) {
+      this.view.setUint16(this.offset, data[i], true);
+      this.offset += 2;
+    }
+  }
+
+  public uint32Array(data: Uint32Array): void {
+    this.u32(data.length);
+    for (let i = 0; i < data.length; i++) this.u32(data[i]);
+  }
+
+  public toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+/**
+ * Reader counterpart of `BinaryWriter`. Throws on reads past the end.
+ */
+export class BinaryReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private buffer: Uint8Array) {
+    this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  }
+
+  public get position(): number {
+    return this.offset;
+  }
+
+  public get remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  private require(bytes: number): void {
+    if (this.offset + bytes > this.buffer.length) {
+      throw new RangeError(`Unexpected end of data at byte ${this.offset} (need ${bytes} more)`);
+    }
+  }
+
+  public u8(): number {
+    this.require(1);
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  public u32(): number {
+    this.require(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  public f64(): number {
+    this.require(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  public bytes(): Uint8Array {
+    const length = this.u32();
+    this.require(length);
+    const data = this.buffer.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return data;
+  }
+
+  public string(): string {
+    return textDecoder.decode(this.bytes());
+  }
+
+  public float32Array(): Float32Array {
+    const length = this.u32();
+    this.require(length * 4);
+    const data = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      data[i] = this.view.getFloat32(this.offset, true);
+      this.offset += 4;
+    }
+    return data;
+  }
+
+  public uint16Array(): Uint16Array {
+    const length = this.u32();
+    this.require(length * 2);
+    const data = new Uint16Array(length);
+    for (let i = 0; i < length; i++) {
+      data[i] = this.view.getUint16(this.offset, true);
+      this.offset += 2;
+    }
+    return data;
+  }
+
+  public uint32Array(): Uint32Array {
+    const length = this.u32();
+    const data = new Uint32Array(length);
+    for (let i = 0; i < length; i++) data[i] = this.u32();
+    return data;
+  }
+}
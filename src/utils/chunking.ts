@@ -0,0 +1,199 @@
+// src/utils/chunking.ts
+
+/** A piece of a document; `text` is `source.slice(start, end)`. */
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+  /** Markdown chunks: the enclosing headings, outermost first, joined with ' > '. */
+  heading?: string;
+}
+
+/** Split a document into spans, in document order. */
+export type Chunker = (text: string) => TextSpan[];
+
+export interface TokenWindowOptions {
+  /** Tokens per chunk (default 200). */
+  size?: number;
+  /** Tokens shared by consecutive chunks (default 40). */
+  overlap?: number;
+}
+
+export interface PackingOptions {
+  /** Most tokens per chunk; longer pieces are split further (default 200). */
+  maxTokens?: number;
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+const SENTENCE_END = /[.!?]+["'’”)\]]*\s+/g;
+const PARAGRAPH_BREAK = /\n[ \t]*\n\s*/g;
+const HEADING = /^(#{1,6})[ \t]+(.*?)[ \t#]*$/;
+const FENCE = /^[ \t]*(```|~~~)/;
+
+/**
+ * Fixed windows of `size` whitespace-delimited tokens, each starting
+ * `size - overlap` tokens after the previous one.
+ */
+export function tokenWindowChunker(options: TokenWindowOptions = {}): Chunker {
+  const size = options.size ?? 200;
+  const overlap = options.overlap ?? 40;
+  if (size < 1 || overlap < 0 || overlap >= size) {
+    throw new Error(`Token windows need size >= 1 and 0 <= overlap < size, got size ${size}, overlap ${overlap}`);
+  }
+  return text => toSpans(text, windows(text, { start: 0, end: text.length }, size, overlap));
+}
+
+/** Consecutive sentences packed up to `maxTokens`; an overlong sentence is cut into windows. */
+export function sentenceChunker(options: PackingOptions = {}): Chunker {
+  const maxTokens = options.maxTokens ?? 200;
+  return text => toSpans(text, sentences(text, { start: 0, end: text.length }, maxTokens));
+}
+
+/**
+ * Consecutive paragraphs (separated by blank lines) packed up to `maxTokens`;
+ * an overlong paragraph is split by sentences.
+ */
+export function paragraphChunker(options: PackingOptions = {}): Chunker {
+  const maxTokens = options.maxTokens ?? 200;
+  return text => toSpans(text, paragraphs(text, { start: 0, end: text.length }, maxTokens));
+}
+
+/**
+ * One chunk per Markdown section (a heading and the text up to the next
+ * heading), split by paragraphs when longer than `maxTokens`. Each span
+ * carries its heading path; headings inside code fences are ignored and
+ * sections with no text besides their heading are skipped.
+ */
+export function markdownChunker(options: PackingOptions = {}): Chunker {
+  const maxTokens = options.maxTokens ?? 200;
+
+  return text => {
+    const spans: TextSpan[] = [];
+    const path: string[] = [];
+    let heading = '';
+    let sectionStart = 0;
+    let bodyStart = 0;
+
+    const flush = (end: number) => {
+      if (!trim(text, { start: bodyStart, end })) return;
+      spans.push(...toSpans(text, paragraphs(text, { start: sectionStart, end }, maxTokens), heading || undefined));
+    };
+
+    let inFence = false;
+    let lineStart = 0;
+    while (lineStart < text.length) {
+      const newline = text.indexOf('\n', lineStart);
+      const lineEnd = newline < 0 ? text.length : newline;
+      const line = text.slice(lineStart, lineEnd);
+
+      if (FENCE.test(line)) inFence = !inFence;
+      const match = inFence ? null : HEADING.exec(line);
+      if (match) {
+        flush(lineStart);
+        path.length = match[1].length - 1;
+        path[match[1].length - 1] = match[2];
+        heading = path.filter(Boolean).join(' > ');
+        sectionStart = lineStart;
+        bodyStart = lineEnd;
+      }
+      lineStart = lineEnd + 1;
+    }
+    flush(text.length);
+    return spans;
+  };
+}
+
+function toSpans(text: string, ranges: Range[], heading?: string): TextSpan[] {
+  return ranges.map(({ start, end }) => {
+    const span: TextSpan = { text: text.slice(start, end), start, end };
+    if (heading !== undefined) span.heading = heading;
+    return span;
+  });
+}
+
+function paragraphs(text: string, range: Range, maxTokens: number): Range[] {
+  return pack(text, split(text, range, PARAGRAPH_BREAK), maxTokens, piece => sentences(text, piece, maxTokens));
+}
+
+function sentences(text: string, range: Range, maxTokens: number): Range[] {
+  return pack(text, split(text, range, SENTENCE_END), maxTokens, piece => windows(text, piece, maxTokens, 0));
+}
+
+/** `range` cut after every match of `separator` (a global regex), trimmed, empty pieces dropped. */
+function split(text: string, range: Range, separator: RegExp): Range[] {
+  const pieces: Range[] = [];
+  const slice = text.slice(range.start, range.end);
+  let start = 0;
+  separator.lastIndex = 0;
+  for (let match = separator.exec(slice); match; match = separator.exec(slice)) {
+    const piece = trim(text, { start: range.start + start, end: range.start + match.index + match[0].length });
+    if (piece) pieces.push(piece);
+    start = match.index + match[0].length;
+  }
+  const last = trim(text, { start: range.start + start, end: range.end });
+  if (last) pieces.push(last);
+  return pieces;
+}
+
+/**
+ * Greedily merge consecutive pieces while they fit in `maxTokens`; a piece
+ * that is too long on its own is handed to `fallback`.
+ */
+function pack(text: string, pieces: Range[], maxTokens: number, fallback: (piece: Range) => Range[]): Range[] {
+  const out: Range[] = [];
+  let current: Range | null = null;
+  let count = 0;
+
+  for (const piece of pieces) {
+    const tokens = tokenRanges(text, piece).length;
+    if (tokens > maxTokens) {
+      if (current) out.push(current);
+      current = null;
+      count = 0;
+      out.push(...fallback(piece));
+      continue;
+    }
+    if (current && count + tokens > maxTokens) {
+      out.push(current);
+      current = null;
+      count = 0;
+    }
+    current = current ? { start: current.start, end: piece.end } : { ...piece };
+    count += tokens;
+  }
+  if (current) out.push(current);
+  return out;
+}
+
+function windows(text: string, range: Range, size: number, overlap: number): Range[] {
+  const tokens = tokenRanges(text, range);
+  const out: Range[] = [];
+  for (let i = 0; i < tokens.length; i += size - overlap) {
+    const last = Math.min(i + size, tokens.length) - 1;
+    out.push({ start: tokens[i].start, end: tokens[last].end });
+    if (last === tokens.length - 1) break;
+  }
+  return out;
+}
+
+/** Offsets of the whitespace-delimited tokens inside `range`. */
+function tokenRanges(text: string, range: Range): Range[] {
+  const tokens: Range[] = [];
+  const pattern = /\S+/g;
+  pattern.lastIndex = range.start;
+  for (let match = pattern.exec(text); match && match.index < range.end; match = pattern.exec(text)) {
+    tokens.push({ start: match.index, end: Math.min(match.index + match[0].length, range.end) });
+  }
+  return tokens;
+}
+
+function trim(text: string, range: Range): Range | null {
+  let { start, end } = range;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
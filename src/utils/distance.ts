@@ -0,0 +1,100 @@
+// src/utils/distance.ts
+
+export type MetricName = 'cosine' | 'dot' | 'l2';
+
+/**
+ * A distance between vectors; smaller is closer. Custom metrics need only a
+ * `name` (stored in snapshots) and `distance`.
+ */
+export interface DistanceMetric {
+  name: string;
+  distance(a: Float32Array, b: Float32Array): number;
+  /** Map a distance to the score reported in results, larger is closer (default `-distance`). */
+  toSimilarity?(distance: number): number;
+  /** Distance from a dot product and both norms, so quantized codes are scored without decoding. */
+  fromDot?(dot: number, normA: number, normB: number): number;
+  /** Vectors may be L2-normalized up front; `distance` on unit vectors is then `1 - dot`. */
+  normalizes?: boolean;
+}
+
+export type Metric = MetricName | DistanceMetric;
+
+export function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export function squaredL2(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return sum;
+}
+
+/** Unit-length copy of `v` (a zero vector stays zero). */
+export function normalized(v: Float32Array): Float32Array {
+  const norm = Math.sqrt(dot(v, v));
+  const out = new Float32Array(v.length);
+  if (norm === 0) return out;
+  for (let i = 0; i < v.length; i++) out[i] = v[i] / norm;
+  return out;
+}
+
+export const METRICS: Record<MetricName, DistanceMetric> = {
+  cosine: {
+    name: 'cosine',
+    distance: (a, b) => {
+      const na = Math.sqrt(dot(a, a));
+      const nb = Math.sqrt(dot(b, b));
+      return na === 0 || nb === 0 ? 1 : 1 - dot(a, b) / (na * nb);
+    },
+    toSimilarity: d => 1 - d,
+    fromDot: (d, na, nb) => (na === 0 || nb === 0 ? 1 : 1 - d / (na * nb)),
+    normalizes: true
+  },
+  dot: {
+    name: 'dot',
+    distance: (a, b) => -dot(a, b),
+    toSimilarity: d => -d,
+    fromDot: d => -d
+  },
+  l2: {
+    name: 'l2',
+    distance: squaredL2,
+    toSimilarity: d => 1 / (1 + Math.sqrt(d)),
+    fromDot: (d, na, nb) => Math.max(0, na * na + nb * nb - 2 * d)
+  }
+};
+
+export function resolveMetric(metric: Metric = 'cosine'): DistanceMetric {
+  if (typeof metric !== 'string') return metric;
+  const builtin = METRICS[metric];
+  if (!builtin) throw new Error(`Unknown metric "${metric}" (expected cosine, dot, l2 or a DistanceMetric)`);
+  return builtin;
+}
+
+export function similarityOf(metric: DistanceMetric, distance: number): number {
+  return metric.toSimilarity ? metric.toSimilarity(distance) : -distance;
+}
+
+/**
+ * The metric to reopen a persisted index with. Built-in metrics are restored
+ * by name; a custom one must be passed again. Passing a metric other than the
+ * stored one throws, since the index was built for the stored one.
+ */
+export function restoreMetric(stored: string, given?: Metric): Metric {
+  if (given !== undefined) {
+    const name = typeof given === 'string' ? given : given.name;
+    if (name !== stored) {
+      throw new Error(`Index was built with the "${stored}" metric but "${name}" was requested`);
+    }
+    return given;
+  }
+  if (stored in METRICS) return stored as MetricName;
+  throw new Error(`Index was built with the custom "${stored}" metric; pass the same metric to load it`);
+}
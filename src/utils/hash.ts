@@ -0,0 +1,13 @@
+// src/utils/hash.ts
+
+/**
+ * 32-bit FNV-1a hash of a string (UTF-16 code units).
+ */
+export function fnv1a(text: string, seed: number = 0x811c9dc5): number {
+  let h = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,107 @@
+// src/utils/heap.ts
+
+/**
+ * Array-backed binary heap. `compare(a, b) < 0` means `a` sits closer to the top,
+ * so `(a, b) => a - b` gives a min-heap and `(a, b) => b - a` a max-heap.
+ */
+export class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public peek(): T | undefined {
+    return this.items[0];
+  }
+
+  public push(item: T): void {
+    const items = this.items;
+    items.push(item);
+
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  public pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  /** Replace the top item (cheaper than pop + push). */
+  public replaceTop(item: T): void {
+    this.items[0] = item;
+    this.siftDown(0);
+  }
+
+  /** Items in heap order (not sorted). */
+  public toArray(): T[] {
+    return this.items.slice();
+  }
+
+  private siftDown(i: number): void {
+    const items = this.items;
+    const n = items.length;
+
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let best = i;
+
+      if (left < n && this.compare(items[left], items[best]) < 0) best = left;
+      if (right < n && this.compare(items[right], items[best]) < 0) best = right;
+      if (best === i) return;
+
+      [items[i], items[best]] = [items[best], items[i]];
+      i = best;
+    }
+  }
+}
+
+/**
+ * Keeps the `k` items with the smallest `distance` seen so far,
+ * using a max-heap so each offer is O(log k) instead of sorting all N.
+ */
+export class TopK<T> {
+  private heap = new BinaryHeap<{ item: T; distance: number }>((a, b) => b.distance - a.distance);
+
+  constructor(private k: number) {}
+
+  public get size(): number {
+    return this.heap.size;
+  }
+
+  /** Largest distance currently kept (Infinity until the heap is full). */
+  public get worst(): number {
+    return this.heap.size < this.k ? Infinity : this.heap.peek()!.distance;
+  }
+
+  public offer(item: T, distance: number): void {
+    if (this.k <= 0) return;
+    if (this.heap.size < this.k) {
+      this.heap.push({ item, distance });
+    } else if (distance < this.heap.peek()!.distance) {
+      this.heap.replaceTop({ item, distance });
+    }
+  }
+
+  /** Kept items, closest first. */
+  public sorted(): { item: T; distance: number }[] {
+    return this.heap.toArray().sort((a, b) => a.distance - b.distance);
+  }
+}
@@ -0,0 +1,99 @@
+// src/utils/kmeans.ts
+
+export interface KMeansResult {
+  /** `k` centroids, row-major, `dimensions` floats each. */
+  centroids: Float32Array;
+  k: number;
+}
+
+/**
+ * Plain Lloyd's k-means (squared L2) over row-major `data`.
+ *
+ * Initialization picks evenly spaced samples, so the result is deterministic
+ * for a given input. Empty clusters are re-seeded from the farthest point.
+ */
+export function kmeans(
+  data: Float32Array,
+  dimensions: number,
+  k: number,
+  iterations: number = 10
+): KMeansResult {
+  const n = data.length / dimensions;
+  k = Math.max(1, Math.min(k, n));
+
+  const centroids = new Float32Array(k * dimensions);
+  for (let c = 0; c < k; c++) {
+    const row = Math.floor((c * n) / k);
+    centroids.set(data.subarray(row * dimensions, (row + 1) * dimensions), c * dimensions);
+  }
+
+  const assignment = new Int32Array(n);
+  const distances = new Float32Array(n);
+  const sums = new Float64Array(k * dimensions);
+  const counts = new Int32Array(k);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    let moved = false;
+
+    for (let i = 0; i < n; i++) {
+      const { index, distance } = nearestCentroid(data, i * dimensions, centroids, k, dimensions);
+      if (assignment[i] !== index) moved = true;
+      assignment[i] = index;
+      distances[i] = distance;
+    }
+    if (!moved && iter > 0) break;
+
+    sums.fill(0);
+    counts.fill(0);
+    for (let i = 0; i < n; i++) {
+      const c = assignment[i];
+      counts[c]++;
+      for (let d = 0; d < dimensions; d++) sums[c * dimensions + d] += data[i * dimensions + d];
+    }
+
+    for (let c = 0; c < k; c++) {
+      if (counts[c] === 0) {
+        // re-seed from the point currently worst served
+        let far = 0;
+        for (let i = 1; i < n; i++) if (distances[i] > distances[far]) far = i;
+        centroids.set(data.subarray(far * dimensions, (far + 1) * dimensions), c * dimensions);
+        distances[far] = 0;
+        continue;
+      }
+      for (let d = 0; d < dimensions; d++) {
+        centroids[c * dimensions + d] = sums[c * dimensions + d] / counts[c];
+      }
+    }
+  }
+
+  return { centroids, k };
+}
+
+/**
+ * Index and squared L2 distance of the centroid closest to `data[offset..]`.
+ */
+export function nearestCentroid(
+  data: Float32Array,
+  offset: number,
+  centroids: Float32Array,
+  k: number,
+  dimensions: number
+): { index: number; distance: number } {
+  let best = 0;
+  let bestDistance = Infinity;
+
+  for (let c = 0; c < k; c++) {
+    let distance = 0;
+    const base = c * dimensions;
+    for (let d = 0; d < dimensions; d++) {
+      const diff = data[offset + d] - centroids[base + d];
+      distance += diff * diff;
+    }
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = c;
+    }
+  }
+
+  return { index: best, distance: bestDistance };
+}
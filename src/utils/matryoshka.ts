@@ -0,0 +1,35 @@
+// src/utils/matryoshka.ts
+
+import { MatryoshkaEmbeddings } from '../types';
+
+export const MEDIUM_DIMENSIONS = 256;
+export const SMALL_DIMENSIONS = 128;
+export const TINY_BITS = 64;
+export const NANO_BITS = 32;
+
+/**
+ * Derive every Matryoshka tier from a full-precision vector:
+ * progressive truncation for medium/small, thresholded bits for tiny/nano.
+ * Both binary tiers are bit-packed (bit i of the code = dimension i).
+ */
+export function deriveMatryoshka(full: Float32Array, threshold: number = 0): MatryoshkaEmbeddings {
+  const medium = full.slice(0, MEDIUM_DIMENSIONS);
+  const small = full.slice(0, SMALL_DIMENSIONS);
+
+  const tiny = new Uint8Array(TINY_BITS / 8);
+  for (let i = 0; i < TINY_BITS; i++) {
+    if (full[i] > threshold) {
+      tiny[i >>> 3] |= 1 << (i & 7);
+    }
+  }
+
+  const nano = new Uint32Array(1);
+  for (let i = 0; i < NANO_BITS; i++) {
+    if (full[i] > threshold) {
+      nano[0] |= 1 << i;
+    }
+  }
+
+  return { full, medium, small, tiny, nano };
+}
+
@@ -0,0 +1,26 @@
+// src/utils/popcount.ts
+
+/** Set-bit count for every 16-bit value. */
+export const POPCOUNT_16 = (() => {
+  const table = new Uint8Array(1 << 16);
+  for (let i = 1; i < table.length; i++) {
+    table[i] = (i & 1) + table[i >> 1];
+  }
+  return table;
+})();
+
+export function popcount32(x: number): number {
+  return POPCOUNT_16[x & 0xffff] + POPCOUNT_16[(x >>> 16) & 0xffff];
+}
+
+/**
+ * Hamming distance between two packed bit strings of equal length.
+ */
+export function hammingDistance(a: Uint8Array | Uint32Array, b: Uint8Array | Uint32Array): number {
+  let count = 0;
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    count += popcount32((a[i] ^ b[i]) >>> 0);
+  }
+  return count;
+}
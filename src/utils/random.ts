@@ -0,0 +1,19 @@
+// src/utils/random.ts
+
+/** Uniform source on [0, 1), same contract as `Math.random`. */
+export type RandomSource = () => number;
+
+/**
+ * Deterministic 32-bit PRNG (mulberry32). The same seed always yields the
+ * same sequence, which makes randomized structures reproducible.
+ */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
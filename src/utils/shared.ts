@@ -0,0 +1,25 @@
+// src/utils/shared.ts
+
+// Typed arrays over a SharedArrayBuffer can be posted to worker threads without
+// copying. Where SharedArrayBuffer is unavailable they fall back to ordinary
+// buffers, which still work but are copied on every post.
+
+function buffer(bytes: number): ArrayBuffer | SharedArrayBuffer {
+  return typeof SharedArrayBuffer !== 'undefined' ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes);
+}
+
+export function sharedFloat32Array(length: number): Float32Array {
+  return new Float32Array(buffer(length * Float32Array.BYTES_PER_ELEMENT));
+}
+
+export function sharedInt32Array(length: number): Int32Array {
+  return new Int32Array(buffer(length * Int32Array.BYTES_PER_ELEMENT));
+}
+
+export function sharedUint32Array(length: number): Uint32Array {
+  return new Uint32Array(buffer(length * Uint32Array.BYTES_PER_ELEMENT));
+}
+
+export function sharedUint8Array(length: number): Uint8Array {
+  return new Uint8Array(buffer(length));
+}
@@ -0,0 +1,76 @@
+// src/utils/tokenize.ts
+
+export interface TokenizerOptions {
+  /** Reduce words to a crude stem, so `indexing`, `indexed` and `indexes` match (default false). */
+  stem?: boolean;
+  /** Drop stop words: `true` for the built-in English list, or a custom list (default none). */
+  stopWords?: boolean | string[];
+}
+
+export type Tokenizer = (text: string) => string[];
+
+export const ENGLISH_STOP_WORDS: readonly string[] = [
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'did', 'do', 'does',
+  'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it',
+  'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'than', 'that', 'the', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'to', 'too', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+];
+
+/**
+ * Lowercase a whitespace-delimited token and strip its punctuation, keeping
+ * letters and digits together, so `SKU-4471,` becomes `sku4471`. Returns ''
+ * for a token made only of punctuation.
+ */
+export function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
+
+/**
+ * Whitespace split, `normalizeToken`, then optional stop-word removal and
+ * stemming. Stop words are matched before stemming.
+ */
+export function createTokenizer(options: TokenizerOptions = {}): Tokenizer {
+  const stopWords = new Set(
+    options.stopWords === true ? ENGLISH_STOP_WORDS : options.stopWords || []
+  );
+  const useStem = options.stem ?? false;
+
+  return text => {
+    const terms: string[] = [];
+    for (const raw of text.split(/\s+/)) {
+      const term = normalizeToken(raw);
+      if (!term || stopWords.has(term)) continue;
+      terms.push(useStem ? stem(term) : term);
+    }
+    return terms;
+  };
+}
+
+/**
+ * Light English suffix stripping (plurals, -ing, -ed, -ly, final e), far
+ * cruder than Porter but enough to conflate common inflections. Terms with
+ * digits are codes or numbers and are left alone.
+ */
+export function stem(term: string): string {
+  if (term.length <= 3 || /\p{N}/u.test(term)) return term;
+
+  let w = term;
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies') && w.length > 4) w = w.slice(0, -3) + 'y';
+  else if (/(?:x|z|ch|sh)es$/.test(w)) w = w.slice(0, -2);
+  else if (w.endsWith('s') && !/(?:ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+  for (const suffix of ['ing', 'ed']) {
+    const base = w.slice(0, -suffix.length);
+    if (w.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base)) {
+      // running -> run, but keep fall / miss / buzz
+      w = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base;
+      break;
+    }
+  }
+
+  if (w.endsWith('ly') && w.length > 5) w = w.slice(0, -2);
+  if (w.endsWith('e') && w.length > 3) w = w.slice(0, -1);
+  return w;
+}
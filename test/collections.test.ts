@@ -0,0 +1,82 @@
+// test/collections.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NgramEmbeddingProvider, UltraVectorDB } from '../src';
+import { fill, makeChunks, tempDir } from './helpers';
+
+describe('collections', () => {
+  it('keeps chunks, dimensions and metric per collection', async () => {
+    const db = await fill(new UltraVectorDB(), makeChunks(10));
+    const notes = await db.createCollection('notes', {
+      embedder: new NgramEmbeddingProvider({ dimensions: 512 }),
+      metric: 'l2'
+    });
+    await fill(notes, makeChunks(5, 'n'));
+
+    assert.equal(db.collection('notes'), notes);
+    assert.equal(notes.collection('default'), db);
+    assert.deepEqual(db.listCollections(), [
+      { name: 'default', chunks: 10, dimensions: 768, index: 'hnsw', metric: 'cosine' },
+      { name: 'notes', chunks: 5, dimensions: 512, index: 'hnsw', metric: 'l2' }
+    ]);
+    assert.ok((await notes.ultraSearch('Note 1', 20)).every(r => r.chunk.id.startsWith('n')));
+    assert.ok((await db.ultraSearch('Note 1', 20)).every(r => r.chunk.id.startsWith('c')));
+  });
+
+  it('renames and drops collections', async () => {
+    const db = new UltraVectorDB();
+    const a = await db.createCollection('a');
+    const b = await db.createCollection('b');
+    await fill(b, makeChunks(3));
+
+    await assert.rejects(db.createCollection('a'), /already exists/);
+    await assert.rejects(db.renameCollection('a', 'b'), /already exists/);
+    await assert.rejects(db.dropCollection('default'), /cannot be dropped/);
+
+    await db.renameCollection('a', 'archive');
+    assert.equal(db.collection('archive'), a);
+    assert.equal(a.name, 'archive');
+    assert.throws(() => db.collection('a'), /Unknown collection "a"/);
+
+    assert.equal(await db.dropCollection('b'), true);
+    assert.equal(await db.dropCollection('b'), false);
+    assert.deepEqual(db.listCollections().map(c => c.name), ['default', 'archive']);
+    await assert.rejects(b.addChunk(makeChunks(1, 'x')[0]), /has been dropped/);
+  });
+
+  it('weights collections in a cross-collection search', async () => {
+    const db = await fill(new UltraVectorDB(), makeChunks(10));
+    await fill(await db.createCollection('notes'), makeChunks(10, 'n'));
+
+    const both = await db.searchCollections('Note 3 describes memory', { limit: 4 });
+    assert.deepEqual(new Set(both.slice(0, 2).map(r => r.collection)), new Set(['default', 'notes']));
+
+    const weighted = await db.searchCollections('Note 3 describes memory', { limit: 4, collections: { default: 0, notes: 1 } });
+    assert.ok(weighted.every(r => r.collection === 'notes'));
+    assert.equal(weighted[0].chunk.id, 'n3');
+  });
+
+  it('restores created, renamed and dropped collections on open', async () => {
+    const dir = await tempDir();
+    const db = await fill(await UltraVectorDB.open(dir), makeChunks(5));
+    await fill(await db.createCollection('drafts', { metric: 'dot' }), makeChunks(4, 'd'));
+    await fill(await db.createCollection('scratch'), makeChunks(2, 's'));
+    await db.compact();
+    await db.renameCollection('drafts', 'published');
+    await db.dropCollection('scratch');
+    await db.close();
+
+    const reopened = await UltraVectorDB.open(dir);
+    assert.deepEqual(
+      reopened.listCollections().map(({ name, chunks, metric }) => ({ name, chunks, metric })),
+      [
+        { name: 'default', chunks: 5, metric: 'cosine' },
+        { name: 'published', chunks: 4, metric: 'dot' }
+      ]
+    );
+    const [top] = await reopened.collection('published').ultraSearch(makeChunks(4, 'd')[2].content, 1);
+    assert.equal(top.chunk.id, 'd2');
+    await reopened.close();
+  });
+});
@@ -0,0 +1,79 @@
+// test/documents.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { UltraVectorDB, markdownChunker, paragraphChunker, sentenceChunker, tokenWindowChunker } from '../src';
+
+const PARAGRAPHS = paragraphChunker({ maxTokens: 8 });
+const ARTICLE = [
+  'Graphs connect neurons. Memory fades without rehearsal.',
+  'Compression trades accuracy for storage. Search needs both.',
+  'Ethics asks who owns the memories we store.'
+].join('\n\n');
+
+describe('chunkers', () => {
+  it('slides token windows with the requested overlap', () => {
+    const text = 'a b c d e f g h i j';
+    assert.deepEqual(tokenWindowChunker({ size: 4, overlap: 1 })(text).map(s => s.text), ['a b c d', 'd e f g', 'g h i j']);
+    assert.throws(() => tokenWindowChunker({ size: 4, overlap: 4 }), /overlap < size/);
+  });
+
+  it('packs sentences and paragraphs up to the token limit', () => {
+    assert.deepEqual(sentenceChunker({ maxTokens: 5 })(ARTICLE).map(s => s.text), [
+      'Graphs connect neurons.',
+      'Memory fades without rehearsal.',
+      'Compression trades accuracy for storage.',
+      'Search needs both.',
+      'Ethics asks who owns the',
+      'memories we store.'
+    ]);
+    assert.equal(paragraphChunker({ maxTokens: 20 })(ARTICLE).length, 2);
+    for (const span of PARAGRAPHS(ARTICLE)) assert.equal(ARTICLE.slice(span.start, span.end), span.text);
+  });
+
+  it('splits Markdown by section and ignores headings in code fences', () => {
+    const markdown = '# Guide\n\nIntro text.\n\n## Setup\n\nRun it.\n\n```\n# not a heading\n```\n\n## Empty\n\n# Notes\n\nDone.';
+    const spans = markdownChunker()(markdown);
+    assert.deepEqual(spans.map(s => s.heading), ['Guide', 'Guide > Setup', 'Notes']);
+    assert.match(spans[1].text, /# not a heading/);
+  });
+});
+
+describe('documents', () => {
+  it('records provenance and replaces a document that is added again', async () => {
+    const db = new UltraVectorDB();
+    const ids = await db.addDocument('article', ARTICLE, { chunker: PARAGRAPHS, metadata: { importance: 4 } });
+    assert.deepEqual(ids, ['article#0', 'article#1', 'article#2']);
+
+    const [top] = await db.ultraSearch('Compression trades accuracy for storage', 1);
+    assert.equal(top.chunk.id, 'article#1');
+    assert.deepEqual(top.chunk.metadata, {
+      ...top.chunk.metadata,
+      type: 'document',
+      importance: 4,
+      docId: 'article',
+      chunkIndex: 1,
+      startOffset: ARTICLE.indexOf('Compression'),
+      endOffset: ARTICLE.indexOf('both.') + 5
+    });
+
+    assert.deepEqual(await db.addDocument('article', 'Only one paragraph now.'), ['article#0']);
+    assert.equal(db.getStats().chunks, 1);
+    assert.equal(await db.deleteDocument('article'), 1);
+    assert.equal(await db.deleteDocument('article'), 0);
+    assert.equal(db.getStats().chunks, 0);
+  });
+
+  it('attaches neighbouring chunks of the same document as context', async () => {
+    const db = new UltraVectorDB();
+    await db.addDocument('article', ARTICLE, { chunker: PARAGRAPHS });
+    await db.addDocument('other', 'Unrelated gardening advice about tomatoes.');
+
+    const [top] = await db.ultraSearch('Compression trades accuracy for storage', { limit: 1, contextChunks: 1 });
+    assert.deepEqual(top.context!.before.map(c => c.id), ['article#0']);
+    assert.deepEqual(top.context!.after.map(c => c.id), ['article#2']);
+
+    const [first] = await db.ultraSearch('Graphs connect neurons', { limit: 1, contextChunks: 2 });
+    assert.deepEqual([first.context!.before.length, first.context!.after.map(c => c.id)], [0, ['article#1', 'article#2']]);
+  });
+});
@@ -0,0 +1,37 @@
+// test/helpers.ts
+
+import { after } from 'node:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ChunkInput, SearchResult, UltraVectorDB } from '../src';
+
+const TYPES = ['Theory', 'Technical', 'Philosophy'];
+const TOPICS = ['graphs', 'neurons', 'compression', 'memory', 'search', 'ethics', 'storage'];
+const VERBS = ['explains', 'compares', 'questions', 'measures', 'describes'];
+
+/** `count` chunks with distinct content; metadata cycles through three types and ten importances. */
+export function makeChunks(count: number, prefix = 'c'): ChunkInput[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}${i}`,
+    content: `Note ${i} ${VERBS[i % VERBS.length]} ${TOPICS[i % TOPICS.length]} and ${TOPICS[(i * 3 + 1) % TOPICS.length]} in part ${Math.floor(i / 7)}`,
+    metadata: { type: TYPES[i % TYPES.length], importance: i % 10 }
+  }));
+}
+
+export async function fill(db: UltraVectorDB, chunks: ChunkInput[]): Promise<UltraVectorDB> {
+  for (const chunk of chunks) await db.addChunk(chunk);
+  return db;
+}
+
+/** Ids and scores, for comparing two result lists exactly. */
+export function ranking(results: SearchResult[]): [string, number][] {
+  return results.map(r => [r.chunk.id, r.score]);
+}
+
+/** A fresh directory, removed when the test file finishes. */
+export async function tempDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'uvdb-test-'));
+  after(() => rm(dir, { recursive: true, force: true }));
+  return dir;
+}
@@ -0,0 +1,131 @@
+// test/memory.test.ts
+
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { UltraVectorDB } from '../src';
+import { fill, makeChunks } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('expiry', () => {
+  it('hides expired chunks from search and sweeps them', async () => {
+    const db = new UltraVectorDB(16, 200, { ttl: DAY });
+    const chunks = makeChunks(20);
+    await fill(db, chunks.slice(0, 15));
+    await db.addChunks(chunks.slice(15).map(c => ({ ...c, metadata: { ...c.metadata, expiresAt: Date.now() - 1 } })));
+
+    const ids = (await db.ultraSearch('Note', 20)).map(r => r.chunk.id);
+    assert.equal(ids.length, 15);
+    assert.ok(ids.every(id => Number(id.slice(1)) < 15));
+
+    assert.equal(await db.sweepExpired(), 5);
+    assert.equal(db.getStats().chunks, 15);
+    assert.equal(await db.sweepExpired(Date.now() + 2 * DAY), 15);
+  });
+
+  it('fills the candidate lists with live chunks', async () => {
+    const chunks = makeChunks(30);
+    const db = await fill(new UltraVectorDB(), chunks);
+    const query = chunks[3].content;
+    for (const stages of [{ binary: false }, { hnsw: false }]) {
+      const options = { limit: 5, ef: 5, binaryCandidates: 5, stages };
+      const nearest = (await db.ultraSearch(query, options)).map(r => r.chunk.id);
+      for (const id of nearest) await db.updateMetadata(id, { expiresAt: Date.now() - 1 });
+
+      const live = (await db.ultraSearch(query, options)).map(r => r.chunk.id);
+      assert.equal(live.length, 5, JSON.stringify(stages));
+      assert.ok(!live.some(id => nearest.includes(id)));
+      await db.sweepExpired();
+    }
+  });
+
+  it('reports a failed background sweep to the logger and keeps sweeping', async () => {
+    const messages: string[] = [];
+    const db = new UltraVectorDB(16, 200, { logger: message => messages.push(message) });
+    const sweep = mock.method(db, 'sweepExpired', async () => {
+      throw new Error('disk full');
+    });
+
+    db.startSweeper(5);
+    await sleep(40);
+    db.stopSweeper();
+
+    assert.ok(sweep.mock.callCount() >= 2);
+    assert.ok(messages.includes('- Expiry sweep failed: disk full'), messages.join('\n'));
+  });
+});
+
+describe('consolidate', () => {
+  const now = Date.now() + 60 * DAY;
+
+  it('merges old near-duplicates into one chunk listing its sources', async () => {
+    const chunks = makeChunks(20);
+    const db = await fill(new UltraVectorDB(), [
+      ...chunks,
+      { ...chunks[4], id: 'again', metadata: { ...chunks[4].metadata, importance: 9 } }
+    ]);
+
+    const merged = await db.consolidate({ now, threshold: 0.99 });
+    assert.deepEqual(merged, [{ id: 'c4', sources: ['c4', 'again'] }]);
+    assert.equal(db.getStats().chunks, 20);
+
+    const [top] = await db.ultraSearch(chunks[4].content, 1);
+    assert.equal(top.chunk.id, 'c4');
+    assert.equal(top.chunk.metadata.importance, 9);
+    assert.deepEqual(top.chunk.metadata.sources, ['c4', 'again']);
+    assert.deepEqual(await db.consolidate({ now: Date.now(), threshold: 0.99 }), []);
+  });
+
+  it('takes merged chunks out of their documents', async () => {
+    const db = new UltraVectorDB();
+    const text = 'Graphs connect neurons and memory fades without rehearsal.';
+    await db.addDocument('A', text);
+    await db.addDocument('B', text);
+
+    const [{ id }] = await db.consolidate({ now, threshold: 0.99 });
+    const [top] = await db.ultraSearch(text, 1);
+    assert.equal(top.chunk.id, id);
+    assert.equal(top.chunk.metadata.docId, undefined);
+
+    await db.addDocument('B', 'A rewritten document about compression.');
+    assert.equal(await db.deleteDocument('A'), 0);
+    assert.equal((await db.ultraSearch(text, 1))[0].chunk.id, id);
+  });
+
+  it('leaves a chunk that only claims a document alone', async () => {
+    const db = new UltraVectorDB();
+    await db.addChunk({ id: 'A#0', content: 'Storage measured in part one.', metadata: { type: 'document', docId: 'B', chunkIndex: 3 } });
+    await db.addDocument('B', 'Ethics asks who owns the memories we store.');
+
+    await db.addDocument('B', 'A rewritten document about compression.');
+    assert.equal(await db.deleteDocument('B'), 1);
+    assert.equal(db.getStats().chunks, 1);
+  });
+});
+
+describe('memory ranking', () => {
+  it('scales the semantic score so hybrid searches still rank by relevance', async () => {
+    const chunks = makeChunks(20);
+    const db = await fill(new UltraVectorDB(), chunks);
+
+    const results = await db.ultraSearch(chunks[4].content, { limit: 5, hybrid: true, memory: { recordAccess: false } });
+    assert.equal(results[0].chunk.id, 'c4');
+    assert.equal(results[0].breakdown.memory!.semantic, 1 / 1.6);
+    for (const { score, breakdown } of results) {
+      const { semantic, recency, importance, frequency } = breakdown.memory!;
+      assert.ok(Math.abs(score - (semantic + recency + importance + frequency)) < 1e-12);
+    }
+  });
+
+  it('records each access on the returned chunks', async () => {
+    const chunks = makeChunks(10);
+    const db = await fill(new UltraVectorDB(), chunks);
+    const now = Date.now() + DAY;
+
+    await db.ultraSearch(chunks[2].content, { limit: 1, memory: { now } });
+    const [top] = await db.ultraSearch(chunks[2].content, { limit: 1, memory: { now, recordAccess: false } });
+    assert.deepEqual([top.chunk.id, top.chunk.metadata.accessCount, top.chunk.metadata.lastAccessed], ['c2', 1, now]);
+    assert.ok(top.breakdown.memory!.frequency > 0);
+  });
+});
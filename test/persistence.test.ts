@@ -0,0 +1,188 @@
+// test/persistence.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FileHandle, appendFile, readFile, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { MetadataValidationError, SearchPlan, UltraVectorDB, UltraVectorDBOptions, WriteAheadLog } from '../src';
+import { fill, makeChunks, ranking, tempDir } from './helpers';
+
+const QUERIES = ['compression of graphs', 'memory and ethics', 'Note 12 measures storage'];
+
+async function assertSameResults(a: UltraVectorDB, b: UltraVectorDB): Promise<void> {
+  for (const query of QUERIES) {
+    assert.deepEqual(ranking(await b.ultraSearch(query, 10)), ranking(await a.ultraSearch(query, 10)), query);
+  }
+}
+
+describe('snapshots', () => {
+  const configs: [string, UltraVectorDBOptions][] = [
+    ['hnsw', {}],
+    ['flat', { index: 'flat' }],
+    ['ivf', { index: 'ivf', ivf: { lists: 4, trainingSize: 20 } }],
+    ['int8 + pq', { quantization: { full: 'int8', medium: 'pq', trainingSize: 30 } }]
+  ];
+
+  for (const [name, options] of configs) {
+    it(`round-trips a ${name} DB with identical results`, async () => {
+      const path = join(await tempDir(), 'db.uvdb');
+      const db = await fill(new UltraVectorDB(16, 100, options), makeChunks(60));
+      await db.save(path);
+
+      const loaded = await UltraVectorDB.load(path, options);
+      assert.equal(loaded.getStats().chunks, 60);
+      await assertSameResults(db, loaded);
+    });
+  }
+
+  it('keeps the trained IVF clustering and token centroids after the training chunks are deleted', async () => {
+    const path = join(await tempDir(), 'db.uvdb');
+    const options: UltraVectorDBOptions = {
+      index: 'ivf',
+      ivf: { lists: 6, nprobe: 2, trainingSize: 20, pq: { subspaces: 32, centroids: 16 } },
+      lateInteraction: { trainingSize: 20, centroids: 16, nprobe: 2 }
+    };
+    const db = await fill(new UltraVectorDB(16, 200, options), makeChunks(60));
+    for (let i = 0; i < 10; i++) await db.deleteChunk(`c${i}`);
+    await db.save(path);
+
+    const loaded = await UltraVectorDB.load(path, options);
+    await assertSameResults(db, loaded);
+    for (const query of QUERIES) {
+      const search = { limit: 10, stages: { lateInteraction: true } };
+      assert.deepEqual(ranking(await loaded.ultraSearch(query, search)), ranking(await db.ultraSearch(query, search)), query);
+    }
+  });
+
+  it('stores int8 tiers as codes, not floats', async () => {
+    const dir = await tempDir();
+    const chunks = makeChunks(60);
+    const plain = await fill(new UltraVectorDB(), chunks);
+    const quantized = await fill(
+      new UltraVectorDB(16, 200, { quantization: { full: 'int8', medium: 'int8', trainingSize: 30 } }),
+      chunks
+    );
+    await plain.save(join(dir, 'plain.uvdb'));
+    await quantized.save(join(dir, 'int8.uvdb'));
+
+    const plainBytes = (await stat(join(dir, 'plain.uvdb'))).size;
+    const int8Bytes = (await stat(join(dir, 'int8.uvdb'))).size;
+    assert.ok(int8Bytes < plainBytes, `${int8Bytes} >= ${plainBytes}`);
+  });
+
+  it('keeps the metric it was saved with', async () => {
+    const path = join(await tempDir(), 'db.uvdb');
+    const db = await fill(new UltraVectorDB(16, 100, { metric: 'l2' }), makeChunks(20));
+    await db.save(path);
+
+    await assert.rejects(UltraVectorDB.load(path, { metric: 'cosine' }), /built with the "l2" metric/);
+    const loaded = await UltraVectorDB.load(path);
+    assert.equal(loaded.listCollections()[0].metric, 'l2');
+    await assertSameResults(db, loaded);
+  });
+
+  it('keeps the metadata indexes and schema of a reopened durable DB', async () => {
+    const dir = await tempDir();
+    const schema = { fields: { type: { type: 'string' as const }, importance: { type: 'integer' as const } } };
+    const db = await fill(await UltraVectorDB.open(dir, { schema, indexes: [{ field: 'type', kind: 'hash' }] }), makeChunks(30));
+    db.createIndex('importance', 'sorted');
+    await db.compact();
+    await db.close();
+
+    const reopened = await UltraVectorDB.open(dir, { indexes: [{ field: 'type', kind: 'sorted' }] });
+    assert.deepEqual(reopened.listIndexes(), [{ field: 'importance', kind: 'sorted' }, { field: 'type', kind: 'sorted' }]);
+    assert.deepEqual(reopened.metadataSchema, schema);
+    await assert.rejects(reopened.addChunk({ ...makeChunks(1, 'x')[0], metadata: { type: 'Theory', importnce: 3 } }), MetadataValidationError);
+
+    const plans: SearchPlan[] = [];
+    const results = await reopened.ultraSearch('Note', { limit: 10, filter: { importance: 4 }, onPlan: p => plans.push(p) });
+    assert.deepEqual(plans[0].indexesUsed, ['importance']);
+    assert.deepEqual(results.map(r => r.chunk.id).sort(), ['c14', 'c24', 'c4']);
+    await reopened.close();
+  });
+
+  it('rejects a corrupted file', async () => {
+    const path = join(await tempDir(), 'db.uvdb');
+    await (await fill(new UltraVectorDB(), makeChunks(5))).save(path);
+    const bytes = await readFile(path);
+    bytes[bytes.length - 10] ^= 0xff;
+    await writeFile(path, bytes);
+
+    await assert.rejects(UltraVectorDB.load(path), /checksum mismatch/);
+  });
+});
+
+describe('write-ahead log', () => {
+  it('replays adds, updates and deletes that were never compacted', async () => {
+    const dir = await tempDir();
+    const db = await fill(await UltraVectorDB.open(dir), makeChunks(20));
+    await db.updateMetadata('c3', { importance: 42 });
+    await db.deleteChunk('c4');
+    await db.close();
+
+    const reopened = await UltraVectorDB.open(dir);
+    const ids = (await reopened.ultraSearch('Note', 50)).map(r => r.chunk.id);
+    assert.equal(reopened.getStats().chunks, 19);
+    assert.ok(!ids.includes('c4'));
+    const c3 = (await reopened.ultraSearch('Note 3', { limit: 50, filter: { importance: 42 } }))[0];
+    assert.equal(c3.chunk.id, 'c3');
+    await reopened.close();
+  });
+
+  it('keeps the log past a compaction and searches the same after reopening', async () => {
+    const dir = await tempDir();
+    const db = await fill(await UltraVectorDB.open(dir), makeChunks(30));
+    await db.compact();
+    await fill(db, makeChunks(10, 'late'));
+    await db.close();
+
+    const reopened = await UltraVectorDB.open(dir);
+    assert.equal(reopened.getStats().chunks, 40);
+    const reference = await fill(new UltraVectorDB(), [...makeChunks(30), ...makeChunks(10, 'late')]);
+    assert.deepEqual(
+      (await reopened.ultraSearch('Note 3 late', 5)).map(r => r.chunk.id).sort(),
+      (await reference.ultraSearch('Note 3 late', 5)).map(r => r.chunk.id).sort()
+    );
+    await reopened.close();
+  });
+
+  it('drops a record torn by a crash and keeps appending after it', async () => {
+    const dir = await tempDir();
+    const db = await fill(await UltraVectorDB.open(dir), makeChunks(5));
+    await db.close();
+    // a frame header promising more payload than was written
+    await appendFile(join(dir, 'wal.log'), Buffer.from([200, 0, 0, 0, 1, 2, 3, 4, 5, 6]));
+
+    const reopened = await UltraVectorDB.open(dir);
+    assert.equal(reopened.getStats().chunks, 5);
+    await reopened.addChunk(makeChunks(1, 'after')[0]);
+    await reopened.close();
+
+    const again = await UltraVectorDB.open(dir);
+    assert.equal(again.getStats().chunks, 6);
+    await again.close();
+  });
+
+  it('cuts a failed write back out so later appends stay readable', async () => {
+    const path = join(await tempDir(), 'wal.log');
+    const { log } = await WriteAheadLog.open(path);
+    await log.append({ op: 'delete', id: 'first' });
+
+    // the next write lands half a frame and then fails, as on a full disk
+    const handle = Reflect.get(log, 'handle') as FileHandle;
+    const write = handle.write;
+    Reflect.set(handle, 'write', async (data: Uint8Array) => {
+      await Reflect.apply(write, handle, [data.subarray(0, data.length >> 1)]);
+      throw new Error('ENOSPC: no space left on device');
+    });
+    await assert.rejects(log.append({ op: 'delete', id: 'lost' }), /ENOSPC/);
+    Reflect.set(handle, 'write', write);
+
+    await log.append({ op: 'delete', id: 'third' });
+    await log.close();
+
+    const { log: reopened, records } = await WriteAheadLog.open(path);
+    assert.deepEqual(records.map(r => (r.op === 'delete' ? r.id : r.op)), ['first', 'third']);
+    await reopened.close();
+  });
+});
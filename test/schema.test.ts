@@ -0,0 +1,65 @@
+// test/schema.test.ts
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MetadataSchemaSpec, MetadataValidationError, UltraVectorDB } from '../src';
+import { fill, makeChunks } from './helpers';
+
+const schema: MetadataSchemaSpec = {
+  fields: {
+    type: { type: 'string', required: true, enum: ['Theory', 'Technical', 'Philosophy'] },
+    importance: { type: 'integer', min: 0, max: 9 },
+    author: { type: 'string' },
+    reviewed: { type: 'boolean' }
+  }
+};
+
+/** The error `promise` rejects with, which must be a `MetadataValidationError`. */
+async function validationError(promise: Promise<unknown>): Promise<MetadataValidationError> {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  assert.ok(error instanceof MetadataValidationError, String(error));
+  return error;
+}
+
+describe('metadata schema', () => {
+  it('names the field and rule a chunk breaks', async () => {
+    const db = new UltraVectorDB(16, 200, { schema });
+    const [chunk] = makeChunks(1);
+    const cases: [Record<string, unknown>, string, string][] = [
+      [{ importance: 3 }, 'type', 'required'],
+      [{ type: 'Poetry' }, 'type', 'enum'],
+      [{ type: 'Theory', importance: 2.5 }, 'importance', 'type'],
+      [{ type: 'Theory', importance: 12 }, 'importance', 'range'],
+      [{ type: 'Theory', reviewed: 'yes' }, 'reviewed', 'type'],
+      [{ type: 'Theory', improtance: 3 }, 'improtance', 'unknown']
+    ];
+
+    for (const [metadata, field, rule] of cases) {
+      const error = await validationError(db.addChunk({ ...chunk, metadata } as typeof chunk));
+      assert.deepEqual([error.field, error.rule, error.chunkId], [field, rule, 'c0'], JSON.stringify(metadata));
+      assert.match(error.message, new RegExp(`"${field}" of chunk "c0"`));
+    }
+    assert.equal(db.getStats().chunks, 0);
+  });
+
+  it('validates metadata updates against the schema', async () => {
+    const db = await fill(new UltraVectorDB(16, 200, { schema }), makeChunks(3));
+    const error = await validationError(db.updateMetadata('c1', { importance: -1 }));
+    assert.deepEqual([error.field, error.rule], ['importance', 'range']);
+    assert.equal((await db.ultraSearch('Note 1', { limit: 1, filter: { importance: 1 } }))[0].chunk.id, 'c1');
+  });
+
+  it('rejects filters and indexes on undeclared fields', async () => {
+    const db = await fill(new UltraVectorDB(16, 200, { schema }), makeChunks(10));
+
+    const unknown = await validationError(db.ultraSearch('Note', { filter: { improtance: { $gte: 5 } } }));
+    assert.deepEqual([unknown.field, unknown.rule], ['improtance', 'unknown']);
+    assert.match(unknown.message, /declared: .*importance/);
+
+    const ranged = await validationError(db.ultraSearch('Note', { filter: { $or: [{ author: { $gt: 3 } }] } }));
+    assert.deepEqual([ranged.field, ranged.rule], ['author', 'type']);
+
+    assert.throws(() => db.createIndex('improtance', 'sorted'), MetadataValidationError);
+    assert.equal((await db.ultraSearch('Note', { filter: { importance: { $gte: 5 } }, limit: 10 })).length, 5);
+  });
+});
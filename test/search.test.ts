@@ -0,0 +1,448 @@
+// test/search.test.ts
+
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BinaryCodeStore,
+  ColbertIndex,
+  DistanceMetric,
+  EmbeddingProvider,
+  HNSWGraph,
+  HNSWOptions,
+  MetadataFilter,
+  Metric,
+  NgramEmbeddingProvider,
+  SearchPlan,
+  UltraVectorDB,
+  UltraVectorDBOptions,
+  WorkerPool,
+  deriveMatryoshka,
+  resolveMetric,
+  seededRandom
+} from '../src';
+import { popcount32 } from '../src/utils/popcount';
+import { fill, makeChunks, ranking } from './helpers';
+
+describe('ultraSearch', () => {
+  const configs: [string, UltraVectorDBOptions][] = [
+    ['hnsw', {}],
+    ['flat', { index: 'flat' }],
+    ['ivf', { index: 'ivf', ivf: { lists: 4, nprobe: 4, trainingSize: 20 } }],
+    ['quantized', { quantization: { full: 'int8', medium: 'pq', trainingSize: 30 } }]
+  ];
+
+  for (const [name, options] of configs) {
+    it(`ranks a chunk first for its own content (${name})`, async () => {
+      const chunks = makeChunks(60);
+      const db = await fill(new UltraVectorDB(16, 200, options), chunks);
+      for (const chunk of [chunks[0], chunks[17], chunks[59]]) {
+        const [top] = await db.ultraSearch(chunk.content, 5);
+        assert.equal(top.chunk.id, chunk.id);
+      }
+    });
+  }
+
+  it('stops returning deleted chunks and finds updated content', async () => {
+    const chunks = makeChunks(40);
+    const db = await fill(new UltraVectorDB(), chunks);
+    assert.equal(await db.deleteChunk('c10'), true);
+    assert.ok(!(await db.ultraSearch(chunks[10].content, 40)).some(r => r.chunk.id === 'c10'));
+
+    await db.updateChunk('c11', { content: 'Quantum chromodynamics of gluon confinement' });
+    const [top] = await db.ultraSearch('Quantum chromodynamics of gluon confinement', 3);
+    assert.equal(top.chunk.id, 'c11');
+  });
+});
+
+describe('addChunk', () => {
+  it('lets only one of two concurrent adds of an id through', async () => {
+    const db = new UltraVectorDB();
+    const [first, second] = makeChunks(2);
+    const outcomes = await Promise.allSettled([
+      db.addChunk(first),
+      db.addChunk({ ...second, id: first.id }),
+      db.addChunks([{ ...second, id: first.id }])
+    ]);
+
+    assert.deepEqual(outcomes.map(o => o.status), ['fulfilled', 'rejected', 'rejected']);
+    assert.equal(db.getStats().chunks, 1);
+    const [top] = await db.ultraSearch(first.content, 1);
+    assert.equal(top.chunk.content, first.content);
+  });
+
+  it('still links a batch into the graph when its parallel build fails', async () => {
+    const messages: string[] = [];
+    const db = new UltraVectorDB(16, 200, { logger: message => messages.push(message) });
+    const chunks = makeChunks(40);
+    const runSplit = mock.method(WorkerPool.prototype, 'runSplit', async () => {
+      throw new Error('Worker exited with code 1');
+    });
+    try {
+      await db.addChunks(chunks, { batchSize: 20, workers: 2 });
+    } finally {
+      runSplit.mock.restore();
+    }
+
+    assert.ok(runSplit.mock.callCount() > 0);
+    assert.ok(messages.some(m => m.startsWith('- Bulk index insert failed')), messages.join('\n'));
+    for (const chunk of [chunks[0], chunks[25], chunks[39]]) {
+      const [top] = await db.ultraSearch(chunk.content, { limit: 1, stages: { binary: false } });
+      assert.equal(top.chunk.id, chunk.id);
+    }
+  });
+
+  it('stores the resolved expiry rather than the ttl', async () => {
+    const db = new UltraVectorDB();
+    const [chunk] = makeChunks(1);
+    await db.addChunk({ ...chunk, ttl: 60_000 });
+
+    const [{ chunk: stored }] = await db.ultraSearch(chunk.content, 1);
+    assert.ok(!('ttl' in stored));
+    assert.ok(stored.metadata.expiresAt! > Date.now());
+  });
+});
+
+describe('filtered search', () => {
+  const filters: MetadataFilter[] = [
+    { type: 'Technical' },
+    { importance: { $gte: 7 } },
+    { type: { $in: ['Theory', 'Philosophy'] }, importance: { $lt: 3 } },
+    { $or: [{ type: 'Theory' }, { importance: 9 }] },
+    { type: 'Technical', $or: [{ importance: { $gte: 7 } }, { importance: 1 }] }
+  ];
+
+  it('returns only matching chunks, with or without metadata indexes', async () => {
+    const chunks = makeChunks(90);
+    const plain = await fill(new UltraVectorDB(16, 200, { bruteForceLimit: 0 }), chunks);
+    const indexed = await fill(
+      new UltraVectorDB(16, 200, {
+        bruteForceLimit: 0,
+        indexes: [{ field: 'type', kind: 'hash' }, { field: 'importance', kind: 'sorted' }]
+      }),
+      chunks
+    );
+    const metadata = new Map(chunks.map(c => [c.id, c.metadata]));
+
+    for (const filter of filters) {
+      const plans: SearchPlan[] = [];
+      const results = await indexed.ultraSearch('graphs and memory', { limit: 10, filter, onPlan: p => plans.push(p) });
+      assert.ok(results.length > 0, JSON.stringify(filter));
+      assert.ok(plans[0].indexesUsed.length > 0, JSON.stringify(filter));
+
+      const expected = (await plain.ultraSearch('graphs and memory', { limit: 90 })).filter(r =>
+        matches(metadata.get(r.chunk.id)!, filter)
+      );
+      assert.deepEqual(
+        results.map(r => r.chunk.id).sort(),
+        expected.slice(0, results.length).map(r => r.chunk.id).sort(),
+        JSON.stringify(filter)
+      );
+    }
+  });
+
+  it('scores small match sets by brute force', async () => {
+    const db = await fill(new UltraVectorDB(16, 200, { indexes: [{ field: 'importance', kind: 'sorted' }] }), makeChunks(60));
+    const plans: SearchPlan[] = [];
+    const results = await db.ultraSearch('storage', { limit: 10, filter: { importance: 4 }, onPlan: p => plans.push(p) });
+    assert.equal(plans[0].strategy, 'bruteForce');
+    assert.equal(results.length, 6);
+    assert.ok(results.every(r => r.chunk.metadata.importance === 4));
+  });
+});
+
+describe('searchBatch', () => {
+  it('matches ultraSearch, on the main thread and on workers', async () => {
+    const db = await fill(new UltraVectorDB(), makeChunks(60));
+    const queries = ['compression of graphs', 'memory and ethics', 'Note 12 measures storage'];
+    const expected = await Promise.all(queries.map(q => db.ultraSearch(q, 5)));
+
+    for (const workers of [0, 2]) {
+      const batch = await db.searchBatch(queries, { limit: 5, workers });
+      assert.deepEqual(batch.map(ranking), expected.map(ranking), `workers: ${workers}`);
+    }
+  });
+});
+
+/** Reference evaluation of the filters above. */
+function matches(metadata: Record<string, unknown>, filter: MetadataFilter): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') return (condition as MetadataFilter[]).some(f => matches(metadata, f));
+    const value = metadata[key];
+    if (condition === null || typeof condition !== 'object') return value === condition;
+    return Object.entries(condition).every(([op, operand]) => {
+      switch (op) {
+        case '$in': return (operand as unknown[]).includes(value);
+        case '$gte': return (value as number) >= (operand as number);
+        case '$lt': return (value as number) < (operand as number);
+        default: throw new Error(`matches() does not handle ${op}`);
+      }
+    });
+  });
+}
+
+describe('WorkerPool', () => {
+  const task = () => ({ codes: new Uint32Array([0b1011, 0b1]), words: 1, rows: 2, queries: new Uint32Array([0]), limit: 1 });
+
+  it('replaces a worker that exits and keeps running tasks', async () => {
+    const pool = new WorkerPool(2);
+    await Promise.all([pool.run('binaryScan', task()), pool.run('binaryScan', task())]);
+
+    const pending = pool.run('binaryScan', task());
+    await pool.terminateWorker(0);
+    await pending.catch(() => undefined); // settled either way, not left hanging
+
+    for (let i = 0; i < 4; i++) {
+      const { rows } = await pool.run('binaryScan', task());
+      assert.deepEqual(Array.from(rows), [1]);
+    }
+    await pool.close();
+    await assert.rejects(pool.run('binaryScan', task()), /closed/);
+  });
+});
+
+describe('BinaryCodeStore', () => {
+  it('defaults to 64-bit codes and rejects narrower ones', () => {
+    assert.equal(new BinaryCodeStore(256).bits, 64);
+    assert.throws(() => new BinaryCodeStore(256, { bits: 32 }), /between 64 and 1024/);
+  });
+
+  it("thresholds sign codes at the embedder's binaryThreshold", async () => {
+    // every component is shifted to around 1, so codes thresholded at 0 would all be ones
+    const inner = new NgramEmbeddingProvider();
+    const shift = async (text: string) => {
+      const { matryoshka, colbert } = await inner.embed(text);
+      return { matryoshka: deriveMatryoshka(matryoshka.full.map(x => x + 1), 1), colbert };
+    };
+    const embedder: EmbeddingProvider = {
+      dimensions: inner.dimensions,
+      binaryThreshold: 1,
+      embed: shift,
+      embedBatch: texts => Promise.all(texts.map(shift))
+    };
+    assert.deepEqual(Array.from(new BinaryCodeStore(64, { signThreshold: 1 }).encode(new Float32Array(64).fill(0.9))), [0, 0]);
+
+    const chunks = makeChunks(40);
+    const db = await fill(new UltraVectorDB(16, 200, { embedder }), chunks);
+    const binaryOnly = { limit: 1, binaryCandidates: 3, stages: { hnsw: false } };
+    for (const chunk of [chunks[7], chunks[25]]) {
+      assert.equal((await db.ultraSearch(chunk.content, binaryOnly))[0].chunk.id, chunk.id);
+    }
+  });
+
+  it('reports the Hamming distance of the stage-1 codes as breakdown.binary', async () => {
+    const embedder = new NgramEmbeddingProvider();
+    const db = await fill(new UltraVectorDB(16, 200, { embedder }), makeChunks(20));
+    const text = 'Note 4 describes memory';
+    const store = new BinaryCodeStore(embedder.dimensions);
+    const query = store.encode((await embedder.embed(text)).matryoshka.full);
+
+    const results = await db.ultraSearch(text, 10);
+    for (const { chunk, breakdown } of results) {
+      store.add(chunk.id, chunk.matryoshka.full);
+      assert.equal(breakdown.binary, store.distance(query, chunk.id), chunk.id);
+    }
+    assert.ok(results.some(r => r.breakdown.binary !== r.breakdown.tiers.nano));
+  });
+
+  it('pairs batch-scan hits with the right ids when rows are removed mid-scan', async () => {
+    const store = new BinaryCodeStore(64);
+    const vectors = new Map<string, Float32Array>();
+    for (let i = 0; i < 40; i++) {
+      const v = Float32Array.from({ length: 64 }, (_, d) => ((i * 7 + d * 13) % 5) - 2);
+      vectors.set(`v${i}`, v);
+      store.add(`v${i}`, v);
+    }
+    const query = store.encode(vectors.get('v3')!);
+    const distance = (id: string) => {
+      const code = store.encode(vectors.get(id)!);
+      return popcount32(code[0] ^ query[0]) + popcount32(code[1] ^ query[1]);
+    };
+
+    const pool = new WorkerPool(2);
+    const scan = store.nearestBatch([query], 40, pool);
+    for (let i = 0; i < 20; i++) store.remove(`v${i * 2}`);
+    const [hits] = await scan;
+    await pool.close();
+
+    assert.equal(hits.length, 40);
+    for (const hit of hits) assert.equal(hit.distance, distance(hit.id), hit.id);
+  });
+});
+
+describe('HNSWGraph', () => {
+  it('leaves an earlier shared view consistent when the upper-layer pool is compacted', () => {
+    const random = seededRandom(7);
+    const vectors = new Map<string, Float32Array>();
+    const graph = new HNSWGraph(4, 32, undefined, { random: seededRandom(1) });
+    const insert = (id: string) => {
+      vectors.set(id, Float32Array.from({ length: 16 }, () => random() - 0.5));
+      graph.insert(id, vectors.get(id)!);
+    };
+    for (let i = 0; i < 50; i++) insert(`n${i}`);
+
+    // slots 25-49 survive; compaction must not move their blocks under the view
+    const view = graph.sharedView();
+    const offsets = view.upperOffset.slice(25, 50);
+    for (let i = 0; i < 25; i++) graph.remove(`n${i}`);
+    for (let i = 50; i < 400; i++) insert(`n${i}`);
+
+    assert.notEqual(graph.sharedView().upperLinks, view.upperLinks, 'the pool was compacted');
+    assert.deepEqual(view.upperOffset.slice(25, 50), offsets);
+    for (const id of ['n30', 'n200', 'n399']) assert.equal(graph.search(vectors.get(id)!, 10)[0], id);
+  });
+
+  it('builds identical graphs from the same seed', () => {
+    const random = seededRandom(11);
+    const vectors = Array.from({ length: 200 }, () => Float32Array.from({ length: 16 }, () => random() - 0.5));
+    const build = () => {
+      const graph = new HNSWGraph(4, 32, undefined, { random: seededRandom(3) });
+      vectors.forEach((v, i) => graph.insert(`n${i}`, v));
+      return graph.toSnapshot();
+    };
+
+    const snapshot = build();
+    assert.equal(snapshot.M0, 8);
+    assert.ok(snapshot.maxLevel > 0);
+    assert.deepEqual(build(), snapshot);
+  });
+
+  it('links in different directions rather than to the closest cluster', () => {
+    // all on layer 0 (random 0.1); b sits right next to a, c further away on the other side of o
+    const points: [string, number][] = [['a', 1], ['b', 1.1], ['c', -1.2], ['o', 0]];
+    const neighborsOfO = (M: number, options: HNSWOptions = {}) => {
+      const graph = new HNSWGraph(M, 16, undefined, { metric: 'l2', random: () => 0.1, ...options });
+      for (const [id, x] of points) graph.insert(id, Float32Array.of(x, 0));
+      const { nodes } = graph.toSnapshot();
+      return nodes.find(n => n.id === 'o')!.neighbors[0].map(i => nodes[i].id);
+    };
+
+    assert.deepEqual(neighborsOfO(3), ['a', 'c']);
+    assert.deepEqual(neighborsOfO(3, { keepPrunedConnections: true }), ['a', 'c', 'b']);
+  });
+});
+
+describe('distance metrics', () => {
+  const random = seededRandom(5);
+  // uneven norms, so dot and l2 rank differently from cosine
+  const vectors = Array.from({ length: 120 }, () => Float32Array.from({ length: 8 }, () => (random() - 0.5) * (1 + 4 * random())));
+  const query = vectors[0].map(x => x + 0.3);
+
+  const custom: DistanceMetric = {
+    name: 'manhattan',
+    distance: (a, b) => a.reduce((sum, x, i) => sum + Math.abs(x - b[i]), 0)
+  };
+
+  for (const metric of ['cosine', 'dot', 'l2', custom] as Metric[]) {
+    const resolved = resolveMetric(metric);
+    it(`returns the exact nearest neighbors under ${resolved.name}`, () => {
+      const graph = new HNSWGraph(8, 64, undefined, { metric, random: seededRandom(2) });
+      vectors.forEach((v, i) => graph.insert(`v${i}`, v));
+
+      const expected = vectors
+        .map((v, i) => ({ id: `v${i}`, distance: resolved.distance(query, v) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, 5)
+        .map(r => r.id);
+      assert.deepEqual(graph.search(query, vectors.length).slice(0, 5), expected);
+    });
+  }
+
+  it('refuses to load a graph under a different metric', () => {
+    const graph = new HNSWGraph(4, 32, undefined, { metric: custom });
+    vectors.forEach((v, i) => graph.insert(`v${i}`, v));
+    const snapshot = graph.toSnapshot();
+    const vector = (id: string) => vectors[Number(id.slice(1))];
+
+    assert.throws(() => HNSWGraph.fromSnapshot(snapshot, vector), /custom "manhattan" metric/);
+    assert.throws(() => HNSWGraph.fromSnapshot(snapshot, vector, { metric: 'l2' }), /built with the "manhattan" metric/);
+    assert.deepEqual(HNSWGraph.fromSnapshot(snapshot, vector, { metric: custom }).search(query, 10), graph.search(query, 10));
+  });
+});
+
+describe('late interaction', () => {
+  it('weights rare query tokens above common ones', async () => {
+    const embedder = new NgramEmbeddingProvider();
+    const index = new ColbertIndex();
+    for (const chunk of makeChunks(30)) index.add(chunk.id, await embedder.embedTokens(chunk.content));
+    assert.ok(index.idf('zeppelin') > index.idf('ethics'));
+    assert.ok(index.idf('ethics') > index.idf('note'));
+  });
+
+  it('finds the same best match before and after training its centroid index', async () => {
+    const embedder = new NgramEmbeddingProvider();
+    const chunks = makeChunks(60);
+    const tokens = await Promise.all(chunks.map(c => embedder.embedTokens(c.content)));
+    const index = new ColbertIndex({ trainingSize: 40, centroids: 16, nprobe: 4 });
+
+    chunks.slice(0, 30).forEach((c, i) => index.add(c.id, tokens[i]));
+    assert.equal(index.trained, false);
+    assert.equal(index.search(tokens[7], 5)[0], 'c7');
+
+    chunks.slice(30).forEach((c, i) => index.add(c.id, tokens[30 + i]));
+    assert.equal(index.trained, true);
+    for (const i of [7, 33, 59]) assert.equal(index.search(tokens[i], 5)[0], chunks[i].id);
+  });
+
+  it('generates candidates from token vectors alone', async () => {
+    const chunks = makeChunks(60);
+    const db = await fill(new UltraVectorDB(16, 200, { lateInteraction: { trainingSize: 30, centroids: 16 } }), chunks);
+    const stages = { binary: false, hnsw: false, lateInteraction: true };
+    for (const chunk of [chunks[3], chunks[42]]) {
+      const [top] = await db.ultraSearch(chunk.content, { limit: 3, stages });
+      assert.equal(top.chunk.id, chunk.id);
+      assert.ok(top.breakdown.colbert > 0);
+    }
+  });
+});
+
+describe('diversification', () => {
+  const chunks = makeChunks(40);
+  const query = chunks[5].content;
+  const copies = ['copy-a', 'copy-b', 'copy-c'];
+  const withCopies = () => fill(new UltraVectorDB(), [...chunks, ...copies.map(id => ({ ...chunks[5], id }))]);
+
+  it('collapses near-duplicates into the best-ranked copy', async () => {
+    const db = await withCopies();
+    const plain = await db.ultraSearch(query, 5);
+    assert.equal(plain.filter(r => r.chunk.content === query).length, 4);
+
+    const [top, ...rest] = await db.ultraSearch(query, { limit: 5, dedupe: 0.99 });
+    assert.equal(top.chunk.id, plain[0].chunk.id);
+    assert.deepEqual([...top.duplicates!].sort(), ['c5', ...copies].filter(id => id !== top.chunk.id).sort());
+    assert.equal(rest.length, 4);
+    assert.ok(rest.every(r => r.chunk.content !== query && !r.duplicates));
+  });
+
+  it('reorders by MMR but keeps each result its own score', async () => {
+    const db = await withCopies();
+    const scores = new Map(ranking(await db.ultraSearch(query, 40)));
+
+    const results = await db.ultraSearch(query, { limit: 4, mmr: { lambda: 0 } });
+    assert.equal(results.filter(r => r.chunk.content === query).length, 1);
+    for (const r of results) assert.equal(r.score, scores.get(r.chunk.id));
+  });
+});
+
+describe('hybrid search', () => {
+  const sku = { id: 'sku', content: 'Replacement pump seal SKU-4471', metadata: { type: 'Technical', importance: 1 } };
+  const query = 'Note 3 compares memory and storage, SKU-4471';
+
+  it('finds exact terms the vector stages miss', async () => {
+    const db = await fill(new UltraVectorDB(), [...makeChunks(40), sku]);
+    const [top] = await db.ultraSearch('sku4471', { limit: 1, hybrid: true, stages: { binary: false } });
+    assert.equal(top.chunk.id, 'sku');
+    assert.ok(top.breakdown.bm25! > 0);
+  });
+
+  it('gives BM25-only hits no rank in the vector list', async () => {
+    const db = await fill(new UltraVectorDB(), [...makeChunks(40), sku]);
+    const options = { limit: 50, ef: 5, stages: { binary: false } };
+    const vector = (await db.ultraSearch(query, options)).map(r => r.chunk.id);
+    assert.ok(!vector.includes('sku'));
+
+    const fused = await db.ultraSearch(query, { ...options, hybrid: true });
+    assert.deepEqual(new Set(fused.slice(0, vector.length).map(r => r.chunk.id)), new Set(vector));
+    // best BM25 match, so its whole score is the lexical rank-1 term
+    assert.equal(fused.find(r => r.chunk.id === 'sku')!.score, 1 / 61);
+  });
+});